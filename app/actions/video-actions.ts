@@ -1,21 +1,34 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { JobStatus } from '@/lib/types';
-import OpenAI from 'openai';
-import axios from 'axios';
-import { updateJobStatus, storeJobResult, markJobAsError } from '@/lib/jobStore';
+import { JobSettings, JobSource } from '@/lib/types';
+import { cancelJob, deleteJob, getJobStatusWithChildren } from '@/lib/jobStore';
+import { getTranscriptProvider } from '@/lib/transcript';
+import { parseSubtitles, SUBTITLE_EXTENSIONS } from '@/lib/subtitles';
+import { removeUploads, saveUpload } from '@/lib/uploads';
+import { describeYouTubeUrlError, parseYouTubeUrl } from '@/lib/youtubeUrl';
+import { generateJobId } from '@/lib/pipeline';
+import { enqueueJob, retryJob } from '@/lib/queue';
+
+interface ProcessActionResult {
+  success: boolean;
+  jobId?: string;
+  status?: string;
+  error?: string;
+}
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export async function processVideoAction(
+  prevState: any,
+  formData: FormData
+): Promise<ProcessActionResult> {
+  const source = (formData.get('source') as string) || 'youtube';
+  const language = formData.get('language') as string;
 
-const RAPIDAPI_KEY = process.env.RAPIDAPI_KEY;
-const RAPIDAPI_HOST = 'youtube-transcript3.p.rapidapi.com';
+  if (source === 'subtitle') {
+    return processSubtitleUpload(formData);
+  }
 
-export async function processVideoAction(prevState: any, formData: FormData) {
   const url = formData.get('url') as string;
-  const language = formData.get('language') as string;
 
   if (!url || !language) {
     return {
@@ -24,32 +37,98 @@ export async function processVideoAction(prevState: any, formData: FormData) {
     };
   }
 
-  if (!isValidYoutubeUrl(url)) {
+  const parsed = parseYouTubeUrl(url);
+  if (!parsed.ok) {
+    return {
+      success: false,
+      error: describeYouTubeUrlError(parsed.code),
+    };
+  }
+
+  const { videoId, playlistId } = parsed;
+  if (!videoId && playlistId) {
+    return startJob({ type: 'playlist', url, playlistId }, { language });
+  }
+  if (!videoId) {
     return {
       success: false,
-      error: '無効なYouTube URLです',
+      error: describeYouTubeUrlError('MISSING_VIDEO_ID'),
     };
   }
 
+  // 字幕トラックの選択で「自動生成」「手動」が指定された場合はその種類を優先する
+  // （プロバイダーが種類を区別できない場合は言語だけを使う）
+  const captionKind = formData.get('captionKind') as string | null;
+  const autoGenerated =
+    captionKind && getTranscriptProvider().supportsTrackKind ? captionKind === 'asr' : undefined;
+
+  return startJob({ type: 'youtube', url, videoId }, { language, autoGenerated });
+}
+
+async function processSubtitleUpload(formData: FormData): Promise<ProcessActionResult> {
+  const file = formData.get('subtitle');
+
+  if (!(file instanceof File) || file.size === 0) {
+    return {
+      success: false,
+      error: '字幕ファイルを選択してください',
+    };
+  }
+
+  if (!SUBTITLE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension))) {
+    return {
+      success: false,
+      error: '対応していない字幕形式です（SRT / WebVTT / SBV / YouTube XML）',
+    };
+  }
+
+  const language = formData.get('language') as string;
+  const content = await file.text();
+  if (parseSubtitles(content, file.name).length === 0) {
+    return {
+      success: false,
+      error: '字幕ファイルから有効なセグメントを読み取れませんでした',
+    };
+  }
+
+  // ワーカーが読み込めるよう、アップロードされた字幕はファイルとして保存しておく
+  const jobId = generateJobId();
+  let filePath: string;
   try {
-    const jobId = generateJobId();
+    filePath = await saveUpload(jobId, file);
+  } catch (error) {
+    await removeUploads(jobId);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました',
+    };
+  }
 
-    const initialStatus: JobStatus = {
+  return startJob({ type: 'subtitle', fileName: file.name, filePath }, { language }, jobId);
+}
+
+// ジョブをキューに追加する（処理はワーカーが行う）
+async function startJob(
+  source: JobSource,
+  settings: JobSettings,
+  jobId: string = generateJobId()
+): Promise<ProcessActionResult> {
+  try {
+    await enqueueJob({
       jobId,
-      status: 'processing',
+      status: 'waiting',
       progress: 0,
+      source,
+      settings,
       createdAt: new Date().toISOString(),
-    };
-    await updateJobStatus(jobId, initialStatus);
-
-    processVideoAsync(url, language, jobId);
+    });
 
     revalidatePath('/');
 
     return {
       success: true,
       jobId,
-      status: 'processing',
+      status: 'waiting',
     };
   } catch (error) {
     return {
@@ -59,18 +138,19 @@ export async function processVideoAction(prevState: any, formData: FormData) {
   }
 }
 
-export async function getJobStatusAction(jobId: string) {
+export async function cancelJobAction(jobId: string) {
   try {
-    const { getJobStatus } = await import('@/lib/jobStore');
-    const status = await getJobStatus(jobId);
+    const status = await cancelJob(jobId);
 
     if (!status) {
       return {
         success: false,
-        error: 'ジョブが見つかりません',
+        error: 'ジョブが見つからないか、すでに終了しています',
       };
     }
 
+    revalidatePath('/');
+
     return {
       success: true,
       data: status,
@@ -78,248 +158,110 @@ export async function getJobStatusAction(jobId: string) {
   } catch (error) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'ステータスの取得に失敗しました',
+      error: error instanceof Error ? error.message : 'キャンセルに失敗しました',
     };
   }
 }
 
-function isValidYoutubeUrl(url: string): boolean {
-  return url?.includes('youtube.com/') || url?.includes('youtu.be/');
-}
-
-function generateJobId(): string {
-  return `job-${Math.random().toString(36).substring(2, 11)}`;
-}
+export async function retryJobAction(jobId: string) {
+  try {
+    const status = await retryJob(jobId);
 
-function processVideoAsync(url: string, language: string, jobId: string): void {
-  processVideo(url, language, jobId).catch((error) => {
-    if (jobId) {
-      markJobAsError(
-        jobId,
-        error instanceof Error ? error.message : '処理中にエラーが発生しました'
-      );
+    if (!status) {
+      return {
+        success: false,
+        error: '再試行できるジョブが見つかりません',
+      };
     }
-  });
-}
 
-async function processVideo(url: string, language: string, jobId: string): Promise<void> {
-  try {
-    const transcription = await getYouTubeTranscript(url, language, jobId);
-    const chapters = await generateChapters(transcription);
-    storeJobResult(jobId, chapters);
+    revalidatePath('/');
+
+    return {
+      success: true,
+      data: status,
+    };
   } catch (error) {
-    markJobAsError(jobId, error instanceof Error ? error.message : '処理中にエラーが発生しました');
-    throw error;
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '再試行に失敗しました',
+    };
   }
 }
 
-async function getYouTubeTranscript(url: string, language: string, jobId: string) {
+// ジョブと関連するデータ（結果・文字起こし・アップロードファイル）をすべて削除する
+export async function deleteJobAction(jobId: string) {
   try {
-    const videoId = extractVideoId(url);
-    if (!videoId) {
-      throw new Error('無効なYouTube URLです');
-    }
-
-    const response = await axios.get(`https://${RAPIDAPI_HOST}/api/transcript`, {
-      params: {
-        videoId: videoId,
-        lang: language === 'auto' ? 'ja' : language,
-      },
-      headers: {
-        'X-RapidAPI-Key': RAPIDAPI_KEY,
-        'X-RapidAPI-Host': RAPIDAPI_HOST,
-      },
-    });
-
-    if (!response.data || !response.data.transcript) {
-      throw new Error('字幕の取得に失敗しました');
-    }
-
-    updateJobStatus(jobId, {
-      status: 'generating',
-      progress: 80,
-    });
-
-    const transcript = response.data.transcript;
-
-    const processedTranscript = transcript.map((item: any) => {
-      const start = parseFloat(item.offset);
-      const end = start + parseFloat(item.duration);
+    const deleted = await deleteJob(jobId);
 
+    if (!deleted) {
       return {
-        text: item.text,
-        start,
-        end,
+        success: false,
+        error: 'ジョブが見つかりません',
       };
-    });
+    }
+
+    revalidatePath('/history');
 
     return {
-      text: processedTranscript.map((item: any) => item.text).join(' '),
-      segments: processedTranscript,
+      success: true,
     };
   } catch (error) {
-    throw new Error(
-      `字幕の取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
-    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '削除に失敗しました',
+    };
   }
 }
 
-function extractVideoId(url: string): string | null {
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-  const match = url.match(regExp);
-  return match && match[2].length === 11 ? match[2] : null;
-}
+export async function listCaptionTracksAction(url: string) {
+  const parsed = parseYouTubeUrl(url);
+  if (!parsed.ok || !parsed.videoId) {
+    return {
+      success: false,
+      error: parsed.ok ? 'URLに動画IDが含まれていません' : describeYouTubeUrlError(parsed.code),
+    };
+  }
+  const { videoId } = parsed;
 
-function determineChapterCount(durationInSeconds: number): { min: number; max: number } {
-  const durationInMinutes = durationInSeconds / 60;
-
-  if (durationInMinutes <= 15) {
-    return { min: 3, max: 5 };
-  } else if (durationInMinutes <= 30) {
-    return { min: 5, max: 8 };
-  } else if (durationInMinutes <= 60) {
-    return { min: 8, max: 12 };
-  } else if (durationInMinutes <= 120) {
-    return { min: 12, max: 20 };
-  } else {
-    return { min: 15, max: 30 };
+  try {
+    const provider = getTranscriptProvider();
+    const tracks = await provider.listTracks(videoId);
+    return {
+      success: true,
+      data: tracks,
+      // false の場合、字幕トラックの選択肢は言語ごとに 1 つにまとめる
+      supportsTrackKind: provider.supportsTrackKind,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '字幕トラックの取得に失敗しました',
+    };
   }
 }
 
-async function generateChapters(transcription: any): Promise<string> {
+export async function getJobStatusAction(jobId: string) {
   try {
-    if (!transcription || typeof transcription !== 'object') {
-      throw new Error('無効なトランスクリプションデータです');
-    }
-
-    const segments = transcription.segments || [];
+    const found = await getJobStatusWithChildren(jobId);
 
-    if (!Array.isArray(segments) || segments.length === 0) {
-      throw new Error('トランスクリプションに有効なセグメントデータが含まれていません');
+    if (!found) {
+      return {
+        success: false,
+        error: 'ジョブが見つかりません',
+      };
     }
 
-    const totalDuration = Math.ceil(segments[segments.length - 1].end);
-    const { min: minChapters, max: maxChapters } = determineChapterCount(totalDuration);
-
-    const topicGroups: { start: number; texts: string[]; segments: any[] }[] = [];
-    let currentGroup = {
-      start: segments[0].start,
-      texts: [segments[0].text],
-      segments: [segments[0]],
+    // 画面で使わないチェックポイント（文字起こしなど）はクライアントに渡さない
+    const { checkpoints, ...job } = found.status;
+    return {
+      success: true,
+      data: job,
+      children: found.children?.map(({ checkpoints, ...child }) => child),
     };
-
-    for (let i = 1; i < segments.length; i++) {
-      const currentSegment = segments[i];
-      const prevSegment = segments[i - 1];
-
-      const gap = currentSegment.start - prevSegment.end;
-
-      const hasTopicChange =
-        /(では|それでは|次に|ところで|さて|ということで|まとめ|結論|重要な|ポイント|注意点|最後に)/.test(
-          currentSegment.text
-        );
-      const hasLongGap = gap > 5;
-
-      if (hasLongGap || hasTopicChange) {
-        if (currentGroup.texts.length > 0) {
-          topicGroups.push(currentGroup);
-        }
-        currentGroup = {
-          start: currentSegment.start,
-          texts: [currentSegment.text],
-          segments: [currentSegment],
-        };
-      } else {
-        currentGroup.texts.push(currentSegment.text);
-        currentGroup.segments.push(currentSegment);
-      }
-    }
-
-    if (currentGroup.texts.length > 0) {
-      topicGroups.push(currentGroup);
-    }
-
-    while (topicGroups.length > maxChapters) {
-      let minDuration = Infinity;
-      let mergeIndex = 0;
-
-      for (let i = 0; i < topicGroups.length - 1; i++) {
-        const duration = topicGroups[i + 1].start - topicGroups[i].start;
-        if (duration < minDuration) {
-          minDuration = duration;
-          mergeIndex = i;
-        }
-      }
-
-      topicGroups[mergeIndex].texts = topicGroups[mergeIndex].texts.concat(
-        topicGroups[mergeIndex + 1].texts
-      );
-      topicGroups[mergeIndex].segments = topicGroups[mergeIndex].segments.concat(
-        topicGroups[mergeIndex + 1].segments
-      );
-      topicGroups.splice(mergeIndex + 1, 1);
-    }
-
-    const formattedSegments = topicGroups
-      .map((group, index) => {
-        const summary = group.texts.join(' ').slice(0, 100) + '...';
-        const startTime = Math.round(group.start * 100) / 100;
-        return `${formatTime(startTime)} ${summary}`;
-      })
-      .join('\n');
-
-    const prompt = `以下の文字起こしから、重要な話題の切れ目を検出して${minChapters}〜${maxChapters}個のチャプターを生成してください。
-動画の総再生時間は${formatTime(totalDuration)}です。
-
-文字起こし（時間と内容）:
-${formattedSegments}
-
-上記の文字起こしから、以下のルールに従ってチャプターを生成してください：
-1. 各チャプターは「MM:SS 章タイトル」の形式で出力
-2. 必ず00:00から始める
-3. 最後のチャプターの時間は${formatTime(totalDuration)}を超えない
-4. 文字起こしの時間を参考に、話題の転換点でチャプターを設定
-5. 各セグメントの内容を要約して、適切な章タイトルを設定
-6. チャプター数は${minChapters}〜${maxChapters}個を目安に
-
-出力例：
-00:00 導入と自己紹介
-01:30 メインテーマの説明
-03:45 具体的な事例の紹介
-...`;
-
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: `あなたは動画のチャプターを生成する専門家です。
-与えられた文字起こしから、時間と内容を考慮して適切なチャプターを生成してください。
-必ず「MM:SS 章タイトル」の形式で出力し、00:00から始めてください。
-動画の総再生時間（${formatTime(totalDuration)}）を超えないように注意してください。
-各セグメントの時間と内容を参考に、自然な話題の転換点でチャプターを設定してください。`,
-        },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const result = completion.choices[0].message.content;
-    if (!result) {
-      throw new Error('GPT-4からの応答が空でした');
-    }
-
-    return result;
   } catch (error) {
-    throw new Error(
-      `チャプターの生成に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
-    );
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'ステータスの取得に失敗しました',
+    };
   }
 }
-
-function formatTime(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-}
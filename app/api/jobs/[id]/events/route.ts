@@ -0,0 +1,114 @@
+import { getJobStatusWithChildren, subscribeToJobChanges } from '@/lib/jobStore';
+import { FINISHED_STATUSES, JobStatus } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// 別プロセスのワーカーによる更新は通知されないため、この間隔でもストアを確認する
+// （接続を維持するためのコメントもこの間隔で送る）
+const RECHECK_INTERVAL_MS = 5000;
+
+// ジョブと子ジョブの revision の合計。どれかが更新されると必ず増える
+function eventIdOf(status: JobStatus, children: JobStatus[] = []): number {
+  return [status, ...children].reduce((sum, job) => sum + (job.revision ?? 0), 0);
+}
+
+// ジョブの状態が変わるたびに status イベントを送る Server-Sent Events
+// 再接続時は Last-Event-ID（EventSource が自動で付ける）または lastEventId パラメータ以降の変更だけを送る
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const initial = await getJobStatusWithChildren(id);
+  if (!initial) {
+    return Response.json({ error: 'ジョブが見つかりません' }, { status: 404 });
+  }
+
+  const lastEventId =
+    request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId');
+  let sentEventId = lastEventId ? Number(lastEventId) : -1;
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        stop();
+        controller.close();
+      };
+
+      const send = async () => {
+        const found = await getJobStatusWithChildren(id);
+        // 取得を待つ間に接続が閉じられた場合は書き込まない
+        if (closed || !found) {
+          return;
+        }
+        const eventId = eventIdOf(found.status, found.children);
+        const finished = FINISHED_STATUSES.includes(found.status.status);
+        // 終了済みのジョブは、クライアントが接続を閉じられるよう必ず最後の状態を送る
+        if (eventId > sentEventId || finished) {
+          sentEventId = eventId;
+          // 画面で使わないチェックポイント（文字起こしなど）は送らない
+          const { checkpoints, ...job } = found.status;
+          const children = found.children?.map(({ checkpoints, ...child }) => child);
+          controller.enqueue(
+            encoder.encode(
+              `id: ${eventId}\nevent: status\ndata: ${JSON.stringify({
+                data: job,
+                children,
+              })}\n\n`
+            )
+          );
+        }
+        if (finished) {
+          close();
+        }
+      };
+
+      // 送信に失敗しても他の通知は続ける（ストリームは閉じられていれば書き込まない）
+      const sendSafely = () => {
+        send().catch((error) => {
+          console.error('ジョブの状態の送信に失敗しました:', error);
+        });
+      };
+
+      const unsubscribe = subscribeToJobChanges((job) => {
+        if (job.jobId === id || job.parentJobId === id) {
+          sendSafely();
+        }
+      });
+      const timer = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          sendSafely();
+        }
+      }, RECHECK_INTERVAL_MS);
+
+      stop = () => {
+        unsubscribe();
+        clearInterval(timer);
+      };
+      request.signal.addEventListener('abort', () => {
+        closed = true;
+        stop();
+      });
+
+      sendSafely();
+    },
+    cancel() {
+      closed = true;
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { createReadStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { getJobStatus } from '@/lib/jobStore';
+import { Chapter } from '@/lib/types';
+import { embedChapters, probeMedia } from '@/lib/media/ffmpeg';
+import { getChapterContainer, getChapterExporter } from '@/lib/chapterExport';
+
+export const dynamic = 'force-dynamic';
+
+// リクエストの本文から編集後のチャプターを読み取る（形式が正しくない場合は null）
+function readChapters(body: unknown): Chapter[] | null {
+  const chapters = (body as { chapters?: unknown } | null)?.chapters;
+  if (!Array.isArray(chapters) || chapters.length === 0) {
+    return null;
+  }
+  const valid = chapters.every(
+    (chapter) =>
+      typeof chapter?.start === 'number' &&
+      Number.isFinite(chapter.start) &&
+      chapter.start >= 0 &&
+      typeof chapter.title === 'string'
+  );
+  return valid ? chapters.map(({ start, title }) => ({ start, title })) : null;
+}
+
+// アップロードされた動画にチャプターを書き込み、remux したファイルを返す
+// 画面で編集した内容を反映するため、チャプターはリクエストの本文で受け取る
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJobStatus(id);
+  if (!job) {
+    return Response.json({ error: 'ジョブが見つかりません' }, { status: 404 });
+  }
+
+  const source = job.source;
+  const container = source?.type === 'media' ? getChapterContainer(source.fileName) : undefined;
+  if (source?.type !== 'media' || !container) {
+    return Response.json(
+      { error: 'チャプターを書き込めるのは MP4 / MOV / MKV のアップロードファイルだけです' },
+      { status: 400 }
+    );
+  }
+  if (job.status === 'expired') {
+    return Response.json(
+      { error: '保存期間を過ぎたため、アップロードされたファイルは削除されました' },
+      { status: 410 }
+    );
+  }
+
+  if (!(await fs.stat(source.mediaPath).catch(() => null))) {
+    return Response.json({ error: 'アップロードされたファイルが見つかりません' }, { status: 410 });
+  }
+
+  const chapters = readChapters(await request.json().catch(() => null));
+  if (!chapters) {
+    return Response.json({ error: 'チャプターの形式が正しくありません' }, { status: 400 });
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'yt-chapter-embed-'));
+  const removeWorkDir = () => fs.rm(workDir, { recursive: true, force: true });
+  try {
+    // 最後のチャプターの終了時刻には実際のファイルの長さを使う
+    // ダウンロードを中止された場合は ffmpeg も終了する
+    const { duration } = await probeMedia(source.mediaPath, request.signal);
+    const metadataPath = path.join(workDir, 'chapters.txt');
+    const outputPath = path.join(workDir, `output${container.extension}`);
+    await fs.writeFile(
+      metadataPath,
+      getChapterExporter('ffmetadata').export(chapters, { duration }),
+      'utf-8'
+    );
+    await embedChapters(source.mediaPath, metadataPath, outputPath, request.signal);
+
+    // 動画全体をメモリに読み込まないよう、ファイルから少しずつ送る（送り終えるか中断されたら削除する）
+    const { size } = await fs.stat(outputPath);
+    const stream = createReadStream(outputPath);
+    stream.once('close', () => {
+      removeWorkDir();
+    });
+    const fileName = source.fileName.replace(/\.[^.]+$/, `-chapters${container.extension}`);
+    return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': container.mimeType,
+        'Content-Length': String(size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    await removeWorkDir();
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'チャプターの書き込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
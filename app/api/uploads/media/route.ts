@@ -0,0 +1,81 @@
+import { enqueueJob } from '@/lib/queue';
+import { generateJobId } from '@/lib/pipeline';
+import { probeMedia } from '@/lib/media/ffmpeg';
+import { MEDIA_EXTENSIONS, MEDIA_MAX_BYTES, removeUploads, saveUploadStream } from '@/lib/uploads';
+
+export const dynamic = 'force-dynamic';
+
+// 動画・音声ファイルをアップロードしてジョブを追加する
+// 大きなファイルを Server Action で受け取るとメモリに載ってしまうため、本文をそのままファイルに書き出す
+// ファイル名と言語はクエリパラメータで受け取る（/api/uploads/media?fileName=...&language=...）
+export async function POST(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const fileName = params.get('fileName') || '';
+  const language = params.get('language') || '';
+
+  if (!fileName || !language || !request.body) {
+    return Response.json(
+      { success: false, error: 'メディアファイルと言語を指定してください' },
+      { status: 400 }
+    );
+  }
+
+  if (!MEDIA_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension))) {
+    return Response.json(
+      { success: false, error: '対応していないファイル形式です（MP4 / MOV / MKV / MP3 / WAV）' },
+      { status: 400 }
+    );
+  }
+
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MEDIA_MAX_BYTES) {
+    return Response.json(
+      {
+        success: false,
+        error: `ファイルサイズが上限（${Math.floor(MEDIA_MAX_BYTES / 1024 / 1024)}MB）を超えています`,
+      },
+      { status: 413 }
+    );
+  }
+
+  const jobId = generateJobId();
+  let mediaPath: string;
+  try {
+    mediaPath = await saveUploadStream(jobId, fileName, request.body, MEDIA_MAX_BYTES);
+    const media = await probeMedia(mediaPath, request.signal);
+    if (!media.hasAudio || media.duration <= 0) {
+      throw new Error('音声トラックを含むメディアファイルを指定してください');
+    }
+  } catch (error) {
+    await removeUploads(jobId);
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await enqueueJob({
+      jobId,
+      status: 'waiting',
+      progress: 0,
+      source: { type: 'media', fileName, mediaPath },
+      settings: { language },
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    await removeUploads(jobId);
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'リクエストの処理に失敗しました',
+      },
+      { status: 500 }
+    );
+  }
+
+  return Response.json({ success: true, jobId, status: 'waiting' });
+}
@@ -0,0 +1,43 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Header from '@/components/Header';
+import JobDetail from '@/components/JobDetail';
+import { Button } from '@/components/ui/button';
+import { ArrowLeftIcon } from 'lucide-react';
+import { getJobStatusWithChildren } from '@/lib/jobStore';
+
+export const dynamic = 'force-dynamic';
+
+interface JobDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function JobDetailPage({ params }: JobDetailPageProps) {
+  const { id } = await params;
+  const found = await getJobStatusWithChildren(id);
+  if (!found) {
+    notFound();
+  }
+
+  // 画面で使わないチェックポイントはクライアントに渡さない
+  const { checkpoints, ...job } = found.status;
+  const children = (found.children || []).map(({ checkpoints, ...child }) => child);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="w-full max-w-3xl mx-auto mb-6">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/history">
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              履歴に戻る
+            </Link>
+          </Button>
+        </div>
+        <JobDetail job={job} childJobs={children} />
+      </main>
+    </div>
+  );
+}
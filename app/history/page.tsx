@@ -0,0 +1,197 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import Header from '@/components/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { SearchIcon } from 'lucide-react';
+import {
+  describeJobSource,
+  formatJobDuration,
+  JOB_STATUS_FILTERS,
+  JobStatusFilter,
+  listJobHistory,
+} from '@/lib/jobHistory';
+import { STATUS_LABELS } from '@/lib/jobStatusLabels';
+
+// ジョブの状態は常に最新のものを表示する
+export const dynamic = 'force-dynamic';
+
+interface HistoryPageProps {
+  searchParams: Promise<{ q?: string; status?: string; page?: string }>;
+}
+
+function historyHref(query: string, status: JobStatusFilter, page: number): string {
+  const params = new URLSearchParams();
+  if (query) params.set('q', query);
+  if (status !== 'all') params.set('status', status);
+  if (page > 1) params.set('page', String(page));
+  const search = params.toString();
+  return search ? `/history?${search}` : '/history';
+}
+
+// 先頭・末尾・現在のページの前後だけを表示し、間は省略する
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+function formatDateTime(value?: string): string {
+  return value ? format(new Date(value), 'yyyy/MM/dd HH:mm') : '-';
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const params = await searchParams;
+  const query = params.q?.trim() || '';
+  const status = JOB_STATUS_FILTERS.some((filter) => filter.value === params.status)
+    ? (params.status as JobStatusFilter)
+    : 'all';
+  const history = await listJobHistory({ query, status, page: Number(params.page) || 1 });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="w-full max-w-5xl mx-auto flex flex-col gap-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <h2 className="text-2xl font-semibold">処理履歴</h2>
+            <form action="/history" className="flex gap-2">
+              {status !== 'all' && <input type="hidden" name="status" value={status} />}
+              <Input
+                name="q"
+                defaultValue={query}
+                placeholder="タイトル・URL・ファイル名で検索"
+                className="w-64"
+              />
+              <Button type="submit" variant="outline" size="icon" aria-label="検索">
+                <SearchIcon className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {JOB_STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.value}
+                asChild
+                size="sm"
+                variant={filter.value === status ? 'default' : 'outline'}
+              >
+                <Link href={historyHref(query, filter.value, 1)}>{filter.label}</Link>
+              </Button>
+            ))}
+          </div>
+
+          <div className="rounded-lg border border-border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>動画</TableHead>
+                  <TableHead>言語</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead>作成日時</TableHead>
+                  <TableHead>完了日時</TableHead>
+                  <TableHead>処理時間</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.jobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      該当するジョブはありません
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  history.jobs.map((job) => (
+                    <TableRow key={job.jobId}>
+                      <TableCell className="max-w-xs">
+                        <Link
+                          href={`/history/${job.jobId}`}
+                          className="line-clamp-1 font-medium hover:underline"
+                        >
+                          {describeJobSource(job)}
+                        </Link>
+                        {job.source?.type === 'playlist' && (
+                          <span className="text-xs text-muted-foreground">
+                            プレイリスト（{job.childJobIds?.length ?? 0} 本）
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{job.language || job.settings?.language || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={job.status === 'error' ? 'destructive' : 'secondary'}>
+                          {STATUS_LABELS[job.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDateTime(job.createdAt)}</TableCell>
+                      <TableCell>{formatDateTime(job.completedAt)}</TableCell>
+                      <TableCell>{formatJobDuration(job)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {history.pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                {history.page > 1 && (
+                  <PaginationItem>
+                    <PaginationPrevious href={historyHref(query, status, history.page - 1)} />
+                  </PaginationItem>
+                )}
+                {visiblePages(history.page, history.pageCount).map((page, index) => (
+                  <PaginationItem key={page ?? `ellipsis-${index}`}>
+                    {page === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href={historyHref(query, status, page)}
+                        isActive={page === history.page}
+                      >
+                        {page}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                {history.page < history.pageCount && (
+                  <PaginationItem>
+                    <PaginationNext href={historyHref(query, status, history.page + 1)} />
+                  </PaginationItem>
+                )}
+              </PaginationContent>
+            </Pagination>
+          )}
+
+          <p className="text-sm text-muted-foreground text-center">全 {history.total} 件</p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -6,102 +6,106 @@ import Header from '@/components/Header';
 import InputForm from '@/components/InputForm';
 import ProgressModal from '@/components/ProgressModal';
 import ResultsArea from '@/components/ResultsArea';
-import { ProcessStatus } from '@/lib/types';
+import PlaylistResults from '@/components/PlaylistResults';
+import PlaylistProgress from '@/components/PlaylistProgress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertCircleIcon, LoaderIcon, RotateCcwIcon } from 'lucide-react';
+import { Chapter, JobStatus, ProcessStatus } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import { useJobStatus } from '@/hooks/use-job-status';
 
 export default function Home() {
   const [status, setStatus] = useState<ProcessStatus>('idle');
   const [progress, setProgress] = useState(0);
-  const [result, setResult] = useState<string | null>(null);
+  // 単体の動画の結果（プレイリストでは動画ごとの結果を PlaylistProgress に表示する）
+  const [chapters, setChapters] = useState<Chapter[] | null>(null);
+  // プレイリストの全動画の結果をまとめたテキスト
+  const [playlistResult, setPlaylistResult] = useState<string | null>(null);
+  const [sceneCuts, setSceneCuts] = useState<number[]>([]);
+  const [duration, setDuration] = useState<number | undefined>(undefined);
+  // アップロードしたメディアファイル（チャプターを書き込んで保存できる）
+  const [media, setMedia] = useState<{ jobId: string; fileName: string } | undefined>(undefined);
+  const [childJobs, setChildJobs] = useState<JobStatus[]>([]);
   const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  // 失敗したジョブ（再試行で続きから処理する）
+  const [failedJob, setFailedJob] = useState<{ jobId: string; error: string } | null>(null);
+  const [retrying, setRetrying] = useState(false);
   const { toast } = useToast();
 
-  // ジョブのステータスを定期的にチェック
+  const { job, children, error: statusError } = useJobStatus(jobId);
+
+  // 購読しているジョブの状態を画面に反映
   useEffect(() => {
-    let intervalId: NodeJS.Timeout;
-    let retryCount = 0;
-    const MAX_RETRIES = 3;
-
-    const checkJobStatus = async () => {
-      if (!jobId) return;
-
-      try {
-        const { getJobStatusAction } = await import('@/app/actions/video-actions');
-        const result = await getJobStatusAction(jobId);
-
-        if (!result.success) {
-          throw new Error(result.error || 'ステータスの取得に失敗しました');
-        }
-
-        const data = result.data;
-
-        if (!data) {
-          throw new Error('データが取得できませんでした');
-        }
-
-        // ステータスとプログレスの更新
-        if (data.status !== status) {
-          setStatus(data.status);
-        }
-
-        if (data.progress !== progress) {
-          setProgress(data.progress);
-        }
-
-        // 完了またはエラーの処理
-        if (data.status === 'done' && data.result) {
-          setResult(data.result);
-          setJobId(null);
-          toast({
-            title: '処理完了',
-            description: 'チャプターの生成が完了しました',
-          });
-        } else if (data.status === 'error') {
-          setJobId(null);
-          toast({
-            title: 'エラー',
-            description: data.error || '処理中にエラーが発生しました',
-            variant: 'destructive',
-          });
-        }
-      } catch (error) {
-        if (retryCount < MAX_RETRIES) {
-          retryCount++;
-          return;
-        }
-        setJobId(null);
-        toast({
-          title: 'エラー',
-          description: error instanceof Error ? error.message : 'ステータスの取得に失敗しました',
-          variant: 'destructive',
-        });
-      }
-    };
-
-    // 処理中のステータスの場合のみチェックを開始
-    if (jobId && ['processing', 'downloading', 'transcribing', 'generating'].includes(status)) {
-      // 初回は即時実行
-      checkJobStatus();
-      // その後1秒ごとにチェック
-      intervalId = setInterval(checkJobStatus, 1000);
+    if (!jobId || !job || job.jobId !== jobId) return;
+
+    setStatus(job.status);
+    setProgress(job.progress);
+    // プレイリストのジョブは動画ごとの状態も更新
+    if (children.length > 0) {
+      setChildJobs(children);
     }
 
-    return () => {
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
-    };
-  }, [jobId, status, progress, toast]);
+    // 完了またはエラーの処理
+    if (job.status === 'done') {
+      setChapters(job.chapters ?? null);
+      setPlaylistResult(job.childJobIds ? (job.result ?? null) : null);
+      setSceneCuts(job.sceneCuts || []);
+      setDuration(job.duration);
+      setMedia(
+        job.source?.type === 'media'
+          ? { jobId: job.jobId, fileName: job.source.fileName }
+          : undefined
+      );
+      setJobId(null);
+      toast({
+        title: '処理完了',
+        description: 'チャプターの生成が完了しました',
+      });
+    } else if (job.status === 'cancelled') {
+      // 別のタブなどでキャンセルされた場合も入力フォームに戻す
+      setStatus('idle');
+      setChildJobs([]);
+      setJobId(null);
+    } else if (job.status === 'error') {
+      setFailedJob({
+        jobId: job.jobId,
+        error: job.error || '処理中にエラーが発生しました',
+      });
+      setJobId(null);
+      toast({
+        title: 'エラー',
+        description: job.error || '処理中にエラーが発生しました',
+        variant: 'destructive',
+      });
+    }
+  }, [jobId, job, children, toast]);
+
+  // ステータスを取得できなくなった場合
+  useEffect(() => {
+    if (!jobId || !statusError) return;
+
+    setStatus('error');
+    setJobId(null);
+    toast({
+      title: 'エラー',
+      description: statusError,
+      variant: 'destructive',
+    });
+  }, [jobId, statusError, toast]);
 
   const handleJobStart = (newJobId: string) => {
-    setStatus('processing');
+    setFailedJob(null);
+    setStatus('waiting');
     setProgress(0);
-    setResult(null);
-
-    // 少し待ってからジョブIDをセットしてポーリング開始
-    setTimeout(() => {
-      setJobId(newJobId);
-    }, 100);
+    setChapters(null);
+    setPlaylistResult(null);
+    setSceneCuts([]);
+    setDuration(undefined);
+    setMedia(undefined);
+    setChildJobs([]);
+    setJobId(newJobId);
 
     toast({
       title: '処理開始',
@@ -109,6 +113,68 @@ export default function Home() {
     });
   };
 
+  const handleRetry = async () => {
+    if (!failedJob) return;
+
+    setRetrying(true);
+    try {
+      const { retryJobAction } = await import('@/app/actions/video-actions');
+      const result = await retryJobAction(failedJob.jobId);
+
+      if (!result.success) {
+        throw new Error(result.error || '再試行に失敗しました');
+      }
+
+      setStatus('waiting');
+      setProgress(0);
+      setJobId(failedJob.jobId);
+      setFailedJob(null);
+      toast({
+        title: '再試行',
+        description: '前回の続きから処理を再開しました',
+      });
+    } catch (error) {
+      toast({
+        title: 'エラー',
+        description: error instanceof Error ? error.message : '再試行に失敗しました',
+        variant: 'destructive',
+      });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setCancelling(true);
+    try {
+      const { cancelJobAction } = await import('@/app/actions/video-actions');
+      const result = await cancelJobAction(jobId);
+
+      if (!result.success) {
+        throw new Error(result.error || 'キャンセルに失敗しました');
+      }
+
+      setJobId(null);
+      setStatus('idle');
+      setProgress(0);
+      setChildJobs([]);
+      toast({
+        title: 'キャンセルしました',
+        description: 'チャプターの生成を中止しました',
+      });
+    } catch (error) {
+      toast({
+        title: 'エラー',
+        description: error instanceof Error ? error.message : 'キャンセルに失敗しました',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
@@ -120,22 +186,67 @@ export default function Home() {
           </div>
         )}
 
-        {status === 'done' && result && (
+        {status === 'done' && (
           <div className="flex flex-col gap-8">
             <InputForm onJobStart={handleJobStart} />
-            <ResultsArea result={result} setResult={setResult} />
+            {childJobs.length > 0 && <PlaylistProgress progress={progress} jobs={childJobs} />}
+            {playlistResult && <PlaylistResults result={playlistResult} />}
+            {chapters && (
+              <ResultsArea
+                chapters={chapters}
+                setChapters={setChapters}
+                sceneCuts={sceneCuts}
+                duration={duration}
+                media={media}
+              />
+            )}
           </div>
         )}
 
         {status === 'error' && (
           <div className="flex flex-col gap-8">
+            {failedJob && (
+              <Alert variant="destructive" className="w-full max-w-3xl mx-auto">
+                <AlertCircleIcon className="h-4 w-4" />
+                <AlertTitle>チャプターの生成に失敗しました</AlertTitle>
+                <AlertDescription className="flex flex-col items-start gap-3">
+                  <span>{failedJob.error}</span>
+                  <Button variant="outline" size="sm" onClick={handleRetry} disabled={retrying}>
+                    {retrying ? (
+                      <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcwIcon className="h-4 w-4 mr-2" />
+                    )}
+                    再試行
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
             <InputForm onJobStart={handleJobStart} />
           </div>
         )}
 
-        {['processing', 'downloading', 'transcribing', 'generating'].includes(status) && (
+        {['waiting', 'processing', 'downloading', 'transcribing', 'generating'].includes(
+          status
+        ) && (
           <div className="h-full flex items-center justify-center">
-            <ProgressModal status={status} progress={progress} />
+            {childJobs.length > 0 ? (
+              <PlaylistProgress
+                progress={progress}
+                jobs={childJobs}
+                onCancel={handleCancel}
+                cancelling={cancelling}
+              />
+            ) : (
+              <ProgressModal
+                status={status}
+                progress={progress}
+                step={job?.step}
+                estimatedCompletionAt={job?.estimatedCompletionAt}
+                onCancel={handleCancel}
+                cancelling={cancelling}
+              />
+            )}
           </div>
         )}
       </main>
@@ -1,28 +1,55 @@
 'use client';
 
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { MoonIcon, SunIcon, YoutubeIcon } from 'lucide-react';
 
+const NAV_ITEMS = [
+  { href: '/', label: '生成' },
+  { href: '/history', label: '履歴' },
+];
+
+function isActive(pathname: string, href: string): boolean {
+  return href === '/' ? pathname === '/' : pathname.startsWith(href);
+}
+
 export default function Header() {
   const { theme, setTheme } = useTheme();
+  const pathname = usePathname();
 
   return (
     <header className="sticky top-0 z-10 border-b border-border backdrop-blur-md bg-background/80">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-        <div className="flex items-center gap-2">
+        <Link href="/" className="flex items-center gap-2">
           <YoutubeIcon className="h-6 w-6 text-red-600" />
           <h1 className="text-xl font-bold">YT-Chapter-Generator</h1>
-        </div>
+        </Link>
+
+        <div className="flex items-center gap-2">
+          <nav className="flex items-center gap-1">
+            {NAV_ITEMS.map((item) => (
+              <Button
+                key={item.href}
+                asChild
+                variant={isActive(pathname, item.href) ? 'secondary' : 'ghost'}
+                size="sm"
+              >
+                <Link href={item.href}>{item.label}</Link>
+              </Button>
+            ))}
+          </nav>
 
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
-          aria-label="Toggle theme"
-        >
-          {theme === 'light' ? <MoonIcon className="h-5 w-5" /> : <SunIcon className="h-5 w-5" />}
-        </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
+            aria-label="Toggle theme"
+          >
+            {theme === 'light' ? <MoonIcon className="h-5 w-5" /> : <SunIcon className="h-5 w-5" />}
+          </Button>
+        </div>
       </div>
     </header>
   );
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useTransition } from 'react';
+import { useEffect, useState, useTransition } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -13,21 +13,108 @@ import {
 } from '@/components/ui/select';
 import { InfoIcon } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { processVideoAction } from '@/app/actions/video-actions';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { listCaptionTracksAction, processVideoAction } from '@/app/actions/video-actions';
+import { CaptionTrack } from '@/lib/types';
 
 interface InputFormProps {
   onJobStart: (jobId: string) => void;
 }
 
+function trackKey(track: CaptionTrack): string {
+  return `${track.language}:${track.isAutoGenerated ? 'asr' : 'manual'}`;
+}
+
+// 手動と自動生成を区別できないプロバイダー向けに、言語ごとに 1 つ（手動があれば手動）にまとめる
+function uniqueLanguageTracks(tracks: CaptionTrack[]): CaptionTrack[] {
+  return tracks.filter((track) => {
+    const sameLanguage = tracks.filter((other) => other.language === track.language);
+    const preferred = sameLanguage.find((other) => !other.isAutoGenerated) ?? sameLanguage[0];
+    return track === preferred;
+  });
+}
+
 export default function InputForm({ onJobStart }: InputFormProps) {
+  const [source, setSource] = useState('youtube');
   const [language, setLanguage] = useState('ja');
+  const [url, setUrl] = useState('');
+  const [tracks, setTracks] = useState<CaptionTrack[] | null>(null);
+  const [supportsTrackKind, setSupportsTrackKind] = useState(true);
+  const [trackSelection, setTrackSelection] = useState('auto');
+  const [isLoadingTracks, setIsLoadingTracks] = useState(false);
   const [isPending, startTransition] = useTransition();
   const [error, setError] = useState<string>('');
 
+  // URLの入力が落ち着いたら、その動画の字幕トラックを取得する
+  useEffect(() => {
+    setTracks(null);
+    setTrackSelection('auto');
+    // 前のURLの取得結果は使わないため、読み込み表示もここで消す
+    setIsLoadingTracks(false);
+    if (!url) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setIsLoadingTracks(true);
+      try {
+        const result = await listCaptionTracksAction(url);
+        if (!cancelled && result.success && result.data && result.data.length > 0) {
+          const kindSelectable = result.supportsTrackKind !== false;
+          setSupportsTrackKind(kindSelectable);
+          setTracks(kindSelectable ? result.data : uniqueLanguageTracks(result.data));
+        }
+      } catch (error) {
+        // 取得できない場合はトラックを選ばず言語の選択に戻す
+        console.error('字幕トラックの取得に失敗しました:', error);
+      } finally {
+        // 後から入力されたURLの取得中は読み込み表示を消さない
+        if (!cancelled) {
+          setIsLoadingTracks(false);
+        }
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [url]);
+
+  const showTracks = source === 'youtube' && tracks !== null;
+  const selectedTrack = showTracks
+    ? tracks.find((track) => trackKey(track) === trackSelection)
+    : undefined;
+
+  // 動画・音声ファイルは Server Action を通さず、本文をそのままアップロード用のルートに送る
+  const uploadMedia = async (formData: FormData) => {
+    const file = formData.get('media');
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: 'メディアファイルと言語を指定してください' };
+    }
+
+    const params = new URLSearchParams({
+      fileName: file.name,
+      language: (formData.get('language') as string) || '',
+    });
+    try {
+      const response = await fetch(`/api/uploads/media?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+      return (await response.json()) as { success: boolean; jobId?: string; error?: string };
+    } catch (error) {
+      return { success: false, error: 'ファイルのアップロードに失敗しました' };
+    }
+  };
+
   const handleSubmit = async (formData: FormData) => {
     setError('');
     startTransition(async () => {
-      const result = await processVideoAction(null, formData);
+      const result =
+        source === 'media' ? await uploadMedia(formData) : await processVideoAction(null, formData);
       if (result.success && result.jobId) {
         onJobStart(result.jobId);
       } else {
@@ -43,45 +130,145 @@ export default function InputForm({ onJobStart }: InputFormProps) {
           <h2 className="text-2xl font-bold text-center mb-6">YouTube チャプター生成</h2>
 
           <form action={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="youtube-url">YouTube URL</Label>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <InfoIcon className="h-4 w-4 text-muted-foreground" />
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p className="max-w-xs">
-                        限定公開のURLも対応しています。最長2時間までの動画に対応しています。
-                      </p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
+            <input type="hidden" name="source" value={source} />
+            <Tabs value={source} onValueChange={setSource}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="youtube">YouTube URL</TabsTrigger>
+                <TabsTrigger value="subtitle">字幕ファイル</TabsTrigger>
+                <TabsTrigger value="media">動画・音声ファイル</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="youtube" className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="youtube-url">YouTube URL</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <InfoIcon className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">
+                          限定公開のURLも対応しています。最長2時間までの動画に対応しています。
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  id="youtube-url"
+                  name="url"
+                  placeholder="https://www.youtube.com/watch?v=..."
+                  className="bg-background"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value.trim())}
+                  required
+                />
+              </TabsContent>
+
+              <TabsContent value="subtitle" className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="subtitle-file">字幕ファイル</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <InfoIcon className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">
+                          SRT / WebVTT / SBV / YouTube XML 形式の字幕ファイルに対応しています。
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  id="subtitle-file"
+                  name="subtitle"
+                  type="file"
+                  accept=".srt,.vtt,.sbv,.xml"
+                  className="bg-background"
+                  required
+                />
+              </TabsContent>
+
+              <TabsContent value="media" className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="media-file">動画・音声ファイル</Label>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <InfoIcon className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">
+                          MP4 / MOV / MKV / MP3 / WAV に対応しています。公開前の動画にも使えます。
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <Input
+                  id="media-file"
+                  name="media"
+                  type="file"
+                  accept=".mp4,.mov,.mkv,.mp3,.wav"
+                  className="bg-background"
+                  required
+                />
+              </TabsContent>
+            </Tabs>
+
+            {showTracks ? (
+              <div className="space-y-2">
+                <Label htmlFor="language">字幕トラック</Label>
+                <input
+                  type="hidden"
+                  name="language"
+                  value={selectedTrack ? selectedTrack.language : 'auto'}
+                />
+                {selectedTrack && supportsTrackKind && (
+                  <input
+                    type="hidden"
+                    name="captionKind"
+                    value={selectedTrack.isAutoGenerated ? 'asr' : 'manual'}
+                  />
+                )}
+                <Select value={trackSelection} onValueChange={setTrackSelection}>
+                  <SelectTrigger id="language" className="bg-background">
+                    <SelectValue placeholder="字幕トラックを選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">自動検出</SelectItem>
+                    {tracks.map((track) => (
+                      <SelectItem key={trackKey(track)} value={trackKey(track)}>
+                        {track.name || track.language}
+                        {supportsTrackKind && `（${track.isAutoGenerated ? '自動生成' : '手動'}）`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="language">言語</Label>
+                  {source === 'youtube' && isLoadingTracks && (
+                    <span className="text-xs text-muted-foreground">字幕トラックを取得中...</span>
+                  )}
+                </div>
+                <input type="hidden" name="language" value={language} />
+                <Select value={language} onValueChange={setLanguage}>
+                  <SelectTrigger id="language" className="bg-background">
+                    <SelectValue placeholder="言語を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ja">日本語</SelectItem>
+                    <SelectItem value="en">English</SelectItem>
+                    <SelectItem value="auto">自動検出</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              <Input
-                id="youtube-url"
-                name="url"
-                placeholder="https://www.youtube.com/watch?v=..."
-                className="bg-background"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="language">言語</Label>
-              <input type="hidden" name="language" value={language} />
-              <Select value={language} onValueChange={setLanguage}>
-                <SelectTrigger id="language" className="bg-background">
-                  <SelectValue placeholder="言語を選択" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="ja">日本語</SelectItem>
-                  <SelectItem value="en">English</SelectItem>
-                  <SelectItem value="auto">自動検出</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            )}
 
             {error && <div className="text-red-600 text-sm">{error}</div>}
 
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Toaster } from '@/components/ui/toaster';
+import ResultsArea from '@/components/ResultsArea';
+import PlaylistProgress from '@/components/PlaylistProgress';
+import PlaylistResults from '@/components/PlaylistResults';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { AlertCircleIcon, ClockIcon, LoaderIcon, TrashIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { FINISHED_STATUSES, JobStatus } from '@/lib/types';
+import { STATUS_LABELS } from '@/lib/jobStatusLabels';
+import { parseChapters } from '@/lib/chapters';
+
+interface JobDetailProps {
+  job: JobStatus;
+  childJobs: JobStatus[];
+}
+
+// 履歴から開いたジョブの結果を表示する（編集内容はこの画面の中だけで保持される）
+export default function JobDetail({ job, childJobs }: JobDetailProps) {
+  // チャプターを保存するようになる前のジョブは結果のテキストから読み取る
+  const [chapters, setChapters] = useState(
+    job.chapters ?? (job.result && !job.childJobIds ? parseChapters(job.result) : undefined)
+  );
+  const [deleting, setDeleting] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  // 処理中のジョブはキャンセルしてからでないと削除できない
+  const deletable = FINISHED_STATUSES.includes(job.status);
+  const source = job.source;
+  const name =
+    job.title ||
+    (source?.type === 'subtitle' || source?.type === 'media' ? source.fileName : source?.url) ||
+    job.jobId;
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      const { deleteJobAction } = await import('@/app/actions/video-actions');
+      const deleted = await deleteJobAction(job.jobId);
+
+      if (!deleted.success) {
+        throw new Error(deleted.error || '削除に失敗しました');
+      }
+
+      toast({
+        title: '削除しました',
+        description: 'ジョブと関連するデータを削除しました',
+      });
+      router.push('/history');
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'エラー',
+        description: error instanceof Error ? error.message : '削除に失敗しました',
+        variant: 'destructive',
+      });
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="w-full max-w-3xl mx-auto bg-card rounded-lg shadow-lg p-6 border border-border">
+        <div className="flex items-start justify-between gap-4">
+          <h2 className="text-xl font-semibold break-all">{name}</h2>
+          <Badge variant={job.status === 'error' ? 'destructive' : 'secondary'}>
+            {STATUS_LABELS[job.status]}
+          </Badge>
+        </div>
+        <dl className="mt-4 grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">言語</dt>
+          <dd>{job.language || job.settings?.language || '-'}</dd>
+          <dt className="text-muted-foreground">作成日時</dt>
+          <dd>{format(new Date(job.createdAt), 'yyyy/MM/dd HH:mm:ss')}</dd>
+          <dt className="text-muted-foreground">完了日時</dt>
+          <dd>
+            {job.completedAt ? format(new Date(job.completedAt), 'yyyy/MM/dd HH:mm:ss') : '-'}
+          </dd>
+          <dt className="text-muted-foreground">ジョブID</dt>
+          <dd className="font-mono">{job.jobId}</dd>
+        </dl>
+        {deletable && (
+          <div className="mt-4 flex justify-end">
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={deleting}>
+                  {deleting ? (
+                    <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <TrashIcon className="h-4 w-4 mr-2" />
+                  )}
+                  削除
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>このジョブを削除しますか？</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    生成したチャプター、文字起こし、アップロードしたファイルがすべて削除されます。この操作は取り消せません。
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>キャンセル</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete}>削除する</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+
+      {job.status === 'expired' && (
+        <Alert className="w-full max-w-3xl mx-auto">
+          <ClockIcon className="h-4 w-4" />
+          <AlertTitle>保存期間を過ぎたジョブです</AlertTitle>
+          <AlertDescription>
+            生成したチャプターと文字起こしは
+            {job.expiredAt ? ` ${format(new Date(job.expiredAt), 'yyyy/MM/dd HH:mm')} に` : ''}
+            削除されました。必要な場合はもう一度生成してください。
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {job.status === 'error' && (
+        <Alert variant="destructive" className="w-full max-w-3xl mx-auto">
+          <AlertCircleIcon className="h-4 w-4" />
+          <AlertTitle>チャプターの生成に失敗しました</AlertTitle>
+          <AlertDescription>{job.error || '処理中にエラーが発生しました'}</AlertDescription>
+        </Alert>
+      )}
+
+      {childJobs.length > 0 && <PlaylistProgress progress={job.progress} jobs={childJobs} />}
+
+      {job.childJobIds && job.result && <PlaylistResults result={job.result} />}
+
+      {chapters && (
+        <ResultsArea
+          chapters={chapters}
+          setChapters={setChapters}
+          sceneCuts={job.sceneCuts}
+          duration={job.duration}
+          media={
+            source?.type === 'media' ? { jobId: job.jobId, fileName: source.fileName } : undefined
+          }
+        />
+      )}
+
+      <Toaster />
+    </div>
+  );
+}
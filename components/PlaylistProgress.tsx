@@ -0,0 +1,101 @@
+'use client';
+
+import { FINISHED_STATUSES, JobStatus, ProcessStatus } from '@/lib/types';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { CheckIcon, ClockIcon, LoaderIcon, XIcon } from 'lucide-react';
+import { STATUS_LABELS } from '@/lib/jobStatusLabels';
+
+interface PlaylistProgressProps {
+  progress: number;
+  jobs: JobStatus[];
+  // 処理中のみ指定する（すべての子ジョブもキャンセルされる）
+  onCancel?: () => void;
+  cancelling?: boolean;
+}
+
+export default function PlaylistProgress({
+  progress,
+  jobs,
+  onCancel,
+  cancelling = false,
+}: PlaylistProgressProps) {
+  const finishedCount = jobs.filter((job) => FINISHED_STATUSES.includes(job.status)).length;
+
+  const getStatusIcon = (status: ProcessStatus) => {
+    switch (status) {
+      case 'done':
+        return <CheckIcon className="h-4 w-4 text-green-500" />;
+      case 'error':
+        return <XIcon className="h-4 w-4 text-red-500" />;
+      case 'cancelled':
+        return <XIcon className="h-4 w-4 text-muted-foreground" />;
+      case 'expired':
+        return <ClockIcon className="h-4 w-4 text-muted-foreground" />;
+      case 'waiting':
+        return <LoaderIcon className="h-4 w-4 text-muted-foreground" />;
+      default:
+        return <LoaderIcon className="h-4 w-4 animate-spin" />;
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto bg-card rounded-lg shadow-lg p-6 border border-border">
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-semibold">プレイリストの処理</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {finishedCount} / {jobs.length} 本完了
+            </span>
+            {onCancel && (
+              <Button variant="outline" size="sm" onClick={onCancel} disabled={cancelling}>
+                <XIcon className="h-4 w-4 mr-2" />
+                キャンセル
+              </Button>
+            )}
+          </div>
+        </div>
+        <Progress value={progress} className="h-2" />
+      </div>
+
+      <Accordion type="multiple" className="mt-4">
+        {jobs.map((job, index) => (
+          <AccordionItem key={job.jobId} value={job.jobId}>
+            <AccordionTrigger
+              className="gap-2"
+              disabled={job.status !== 'done' && job.status !== 'error' && job.status !== 'expired'}
+            >
+              <span className="flex flex-1 items-center gap-2 text-left">
+                {getStatusIcon(job.status)}
+                <span className="line-clamp-1">
+                  {index + 1}. {job.title || job.jobId}
+                </span>
+              </span>
+              <Badge variant={job.status === 'error' ? 'destructive' : 'secondary'}>
+                {STATUS_LABELS[job.status]}
+                {!FINISHED_STATUSES.includes(job.status) && ` ${job.progress}%`}
+              </Badge>
+            </AccordionTrigger>
+            <AccordionContent>
+              {job.status === 'done' && job.result ? (
+                <pre className="whitespace-pre-wrap font-mono text-sm">{job.result}</pre>
+              ) : job.status === 'expired' ? (
+                <p className="text-muted-foreground">保存期間を過ぎたため、結果は削除されました</p>
+              ) : (
+                <p className="text-red-600">{job.error || '処理に失敗しました'}</p>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+}
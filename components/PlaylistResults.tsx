@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { CopyIcon, DownloadIcon, CheckIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface PlaylistResultsProps {
+  // 動画ごとの見出し付きでまとめた親ジョブの結果
+  result: string;
+}
+
+// プレイリストの全動画のチャプターをまとめてコピー・ダウンロードする
+// （動画ごとの編集や書き出しは履歴の各ジョブから行う）
+export default function PlaylistResults({ result }: PlaylistResultsProps) {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(result);
+      setCopied(true);
+      toast({
+        title: 'コピーしました',
+        description: 'すべての動画のチャプターがクリップボードにコピーされました。',
+      });
+
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: 'コピーに失敗しました。もう一度お試しください。',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([result], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `youtube-playlist-chapters-${new Date().toISOString().slice(0, 10)}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'ダウンロードしました',
+      description: 'チャプターファイルがダウンロードされました。',
+    });
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto bg-card rounded-lg shadow-lg overflow-hidden border border-border">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold">まとめたチャプター</h3>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownload}>
+              <DownloadIcon className="h-4 w-4 mr-2" />
+              ダウンロード
+            </Button>
+            <Button variant="default" size="sm" onClick={handleCopy}>
+              {copied ? (
+                <CheckIcon className="h-4 w-4 mr-2" />
+              ) : (
+                <CopyIcon className="h-4 w-4 mr-2" />
+              )}
+              すべてコピー
+            </Button>
+          </div>
+        </div>
+        <Textarea value={result} readOnly className="min-h-[300px] font-mono text-sm" />
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,50 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { ProcessStatus } from '@/lib/types';
 import { Progress } from '@/components/ui/progress';
-import { ArrowDownIcon, CheckIcon, FileTextIcon, LoaderIcon, WavesIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ArrowDownIcon, CheckIcon, FileTextIcon, LoaderIcon, WavesIcon, XIcon } from 'lucide-react';
 
 interface ProgressModalProps {
   status: ProcessStatus;
   progress: number;
+  // 現在の処理内容と完了予定時刻（ジョブから報告された場合のみ）
+  step?: string;
+  estimatedCompletionAt?: string;
+  onCancel?: () => void;
+  cancelling?: boolean;
 }
 
-export default function ProgressModal({ status, progress }: ProgressModalProps) {
+export default function ProgressModal({
+  status,
+  progress,
+  step,
+  estimatedCompletionAt,
+  onCancel,
+  cancelling = false,
+}: ProgressModalProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // 残り時間の表示を1秒ごとに更新
+  useEffect(() => {
+    if (!estimatedCompletionAt) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [estimatedCompletionAt]);
+
+  const formatRemaining = (seconds: number) => {
+    if (seconds < 10) return 'まもなく完了';
+    if (seconds < 60) return `残り約 ${Math.ceil(seconds / 10) * 10} 秒`;
+    return `残り約 ${Math.round(seconds / 60)} 分`;
+  };
+
   const getStatusInfo = () => {
     switch (status) {
       case 'waiting':
         return {
-          title: 'キューに追加中...',
-          description: 'リクエストを処理するためのキューに追加しています。',
+          title: '順番待ち...',
+          description: '他のジョブの処理が終わり次第、自動的に開始します。',
           icon: <LoaderIcon className="h-8 w-8 animate-spin" />,
         };
       case 'downloading':
@@ -52,6 +81,9 @@ export default function ProgressModal({ status, progress }: ProgressModalProps)
   };
 
   const { title, description, icon } = getStatusInfo();
+  const remainingSeconds = estimatedCompletionAt
+    ? Math.max(0, (new Date(estimatedCompletionAt).getTime() - now) / 1000)
+    : null;
 
   return (
     <div className="w-full max-w-md bg-card rounded-lg shadow-lg p-6 border border-border">
@@ -62,7 +94,7 @@ export default function ProgressModal({ status, progress }: ProgressModalProps)
 
         <div>
           <h3 className="text-xl font-semibold">{title}</h3>
-          <p className="text-muted-foreground mt-1">{description}</p>
+          <p className="text-muted-foreground mt-1">{step || description}</p>
         </div>
 
         <div className="w-full mt-4 space-y-2">
@@ -71,6 +103,11 @@ export default function ProgressModal({ status, progress }: ProgressModalProps)
             <span className="text-sm text-muted-foreground">{progress}%</span>
           </div>
           <Progress value={progress} className="h-2" />
+          {remainingSeconds !== null && (
+            <p className="text-xs text-muted-foreground text-right">
+              {formatRemaining(remainingSeconds)}
+            </p>
+          )}
         </div>
 
         {status === 'transcribing' && (
@@ -78,6 +115,17 @@ export default function ProgressModal({ status, progress }: ProgressModalProps)
             長い動画の場合は処理に時間がかかります。このページを開いたままにしてください。
           </p>
         )}
+
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={cancelling}>
+            {cancelling ? (
+              <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <XIcon className="h-4 w-4 mr-2" />
+            )}
+            キャンセル
+          </Button>
+        )}
       </div>
     </div>
   );
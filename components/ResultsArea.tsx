@@ -1,20 +1,142 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { CopyIcon, DownloadIcon, CheckIcon, PencilIcon, SaveIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  CopyIcon,
+  DownloadIcon,
+  CheckIcon,
+  PencilIcon,
+  SaveIcon,
+  MagnetIcon,
+  PlusIcon,
+  TrashIcon,
+  TextIcon,
+  TableIcon,
+  TriangleAlertIcon,
+  WandSparklesIcon,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { Chapter } from '@/lib/types';
+import { parseChapterLine, parseChapters, serializeChapters } from '@/lib/chapters';
+import { formatTimestamp, parseTimestamp, timestampHoursMode } from '@/lib/timestamps';
+import { autoFixChapters, ChapterIssue, validateChapters } from '@/lib/chapterRules';
+import {
+  CHAPTER_EXPORTERS,
+  ChapterExportContext,
+  ChapterExporter,
+  embedId3Chapters,
+  getChapterContainer,
+} from '@/lib/chapterExport';
+import TimecodeExportDialog from '@/components/TimecodeExportDialog';
+
+// チャプターをシーン切り替えに合わせる際の最大のずれ（秒）
+const SNAP_TOLERANCE_SECONDS = 5;
 
 interface ResultsAreaProps {
-  result: string;
-  setResult: (result: string) => void;
+  chapters: Chapter[];
+  setChapters: (chapters: Chapter[]) => void;
+  sceneCuts?: number[];
+  // 動画の長さ（秒）。分かる場合は長さに関する条件も確認する
+  duration?: number;
+  // アップロードされたメディアファイルのジョブ。動画の場合はチャプターを書き込んだファイルを保存できる
+  media?: { jobId: string; fileName: string };
+}
+
+// 編集中の1行（時刻は入力途中の値も保持できるよう文字列で持つ）
+interface ChapterDraft {
+  time: string;
+  title: string;
+}
+
+function toDrafts(chapters: Chapter[]): ChapterDraft[] {
+  const hours = timestampHoursMode(chapters.map((chapter) => chapter.start));
+  return chapters.map((chapter) => ({
+    time: formatTimestamp(chapter.start, { hours }),
+    title: chapter.title,
+  }));
+}
+
+// 編集中の内容から、時刻を読み取れたチャプターとその行番号を取り出す
+function draftChapters(
+  drafts: ChapterDraft[],
+  textDraft: string | null
+): { chapters: Chapter[]; lines: number[] } {
+  const rows =
+    textDraft !== null
+      ? textDraft.split('\n').map((line) => parseChapterLine(line))
+      : drafts.map((draft) => {
+          const start = parseTimestamp(draft.time);
+          return start === null ? null : { start, title: draft.title.trim() };
+        });
+
+  const chapters: Chapter[] = [];
+  const lines: number[] = [];
+  rows.forEach((chapter, index) => {
+    if (chapter) {
+      chapters.push(chapter);
+      lines.push(index + 1);
+    }
+  });
+  return { chapters, lines };
 }
 
-export default function ResultsArea({ result, setResult }: ResultsAreaProps) {
+export default function ResultsArea({
+  chapters,
+  setChapters,
+  sceneCuts = [],
+  duration,
+  media,
+}: ResultsAreaProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [drafts, setDrafts] = useState<ChapterDraft[]>([]);
+  // テキストで編集している場合のみ値を持つ
+  const [textDraft, setTextDraft] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  // フレームレートと開始タイムコードを選んでから書き出す形式
+  const [timecodeExporter, setTimecodeExporter] = useState<ChapterExporter | null>(null);
+  const mp3InputRef = useRef<HTMLInputElement>(null);
+  const [embedding, setEmbedding] = useState(false);
   const { toast } = useToast();
+  const result = serializeChapters(chapters);
+  const container = media ? getChapterContainer(media.fileName) : undefined;
+
+  // 編集中も入力内容を YouTube の条件で確認し続ける
+  const editing = isEditing ? draftChapters(drafts, textDraft) : null;
+  const issues: ChapterIssue[] = editing
+    ? validateChapters(editing.chapters, { duration, lines: editing.lines })
+    : validateChapters(chapters, { duration });
+
+  const handleAutoFix = () => {
+    const fixed = autoFixChapters(editing ? editing.chapters : chapters, duration);
+    if (!isEditing) {
+      setChapters(fixed);
+    } else if (textDraft !== null) {
+      setTextDraft(serializeChapters(fixed));
+    } else {
+      setDrafts(toDrafts(fixed));
+    }
+    const remaining = validateChapters(fixed, { duration }).length;
+    toast({
+      title: '自動修正しました',
+      description:
+        remaining === 0
+          ? 'YouTube のチャプターの条件を満たすように修正しました。'
+          : `自動で修正できない問題が${remaining}件あります。`,
+    });
+  };
 
   const handleCopy = async () => {
     try {
@@ -35,12 +157,12 @@ export default function ResultsArea({ result, setResult }: ResultsAreaProps) {
     }
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([result], { type: 'text/plain' });
+  const saveFile = (content: BlobPart, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `youtube-chapters-${new Date().toISOString().slice(0, 10)}.txt`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -52,11 +174,152 @@ export default function ResultsArea({ result, setResult }: ResultsAreaProps) {
     });
   };
 
+  const handleDownload = (
+    exporter: ChapterExporter,
+    settings: Pick<ChapterExportContext, 'frameRate' | 'timecodeOffset'> = {}
+  ) => {
+    saveFile(
+      exporter.export(chapters, { duration, ...settings }),
+      exporter.mimeType,
+      `youtube-chapters-${new Date().toISOString().slice(0, 10)}.${exporter.fileExtension}`
+    );
+  };
+
+  // 選択された MP3 の ID3 タグにチャプターを書き込み、別名で保存する（ファイルはブラウザ内で処理する）
+  const handleEmbedMp3 = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const mp3 = new Uint8Array(await file.arrayBuffer());
+      saveFile(
+        embedId3Chapters(mp3, chapters, { duration }),
+        'audio/mpeg',
+        file.name.replace(/(\.mp3)?$/i, '-chapters.mp3')
+      );
+    } catch (error) {
+      toast({
+        title: 'エラー',
+        description:
+          error instanceof Error ? error.message : 'MP3 へのチャプターの書き込みに失敗しました',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // サーバーでアップロード済みの動画を remux し、チャプター入りのファイルを保存する
+  const handleEmbedVideo = async () => {
+    if (!media || !container) return;
+
+    setEmbedding(true);
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(media.jobId)}/media`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chapters }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'チャプターの書き込みに失敗しました');
+      }
+
+      saveFile(
+        await response.blob(),
+        container.mimeType,
+        media.fileName.replace(/\.[^.]+$/, `-chapters${container.extension}`)
+      );
+    } catch (error) {
+      toast({
+        title: 'エラー',
+        description: error instanceof Error ? error.message : 'チャプターの書き込みに失敗しました',
+        variant: 'destructive',
+      });
+    } finally {
+      setEmbedding(false);
+    }
+  };
+
+  const handleSnapToScenes = () => {
+    let snappedCount = 0;
+
+    const snapped = chapters.map((chapter) => {
+      // 00:00 のチャプターは動かさない
+      if (chapter.start === 0) {
+        return chapter;
+      }
+
+      const nearest = sceneCuts.reduce((closest, cut) =>
+        Math.abs(cut - chapter.start) < Math.abs(closest - chapter.start) ? cut : closest
+      );
+      const start = Math.floor(nearest);
+      if (Math.abs(nearest - chapter.start) > SNAP_TOLERANCE_SECONDS || start === chapter.start) {
+        return chapter;
+      }
+
+      snappedCount++;
+      return { ...chapter, start };
+    });
+
+    setChapters(snapped);
+    toast({
+      title: 'シーンに合わせました',
+      description: `${snappedCount}件のチャプターをシーン切り替えの位置に移動しました。`,
+    });
+  };
+
   const handleEdit = () => {
+    setDrafts(toDrafts(chapters));
+    setTextDraft(null);
     setIsEditing(true);
   };
 
+  // 表とテキストの編集を切り替える（テキストからはタイムスタンプで始まる行だけを読み取る）
+  const handleToggleTextMode = () => {
+    if (textDraft === null) {
+      setTextDraft(drafts.map((draft) => `${draft.time} ${draft.title}`.trimEnd()).join('\n'));
+    } else {
+      setDrafts(toDrafts(parseChapters(textDraft)));
+      setTextDraft(null);
+    }
+  };
+
+  const updateDraft = (index: number, update: Partial<ChapterDraft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...update } : draft)));
+  };
+
   const handleSave = () => {
+    let edited: Chapter[];
+    if (textDraft !== null) {
+      edited = parseChapters(textDraft);
+    } else {
+      const invalidRows = drafts
+        .map((draft, index) => (parseTimestamp(draft.time) === null ? index + 1 : null))
+        .filter((row): row is number => row !== null);
+      if (invalidRows.length > 0) {
+        toast({
+          title: '時刻が正しくありません',
+          description: `${invalidRows.join(', ')} 行目の時刻を MM:SS または H:MM:SS の形式で入力してください。`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      edited = drafts.map((draft) => ({
+        start: parseTimestamp(draft.time) ?? 0,
+        title: draft.title.trim(),
+      }));
+    }
+
+    if (edited.length === 0) {
+      toast({
+        title: 'チャプターがありません',
+        description: '少なくとも1件のチャプターを入力してください。',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setChapters(edited);
     setIsEditing(false);
     toast({
       title: '保存しました',
@@ -71,20 +334,75 @@ export default function ResultsArea({ result, setResult }: ResultsAreaProps) {
           <h3 className="text-xl font-semibold">生成されたチャプター</h3>
           <div className="flex gap-2">
             {isEditing ? (
-              <Button variant="outline" size="sm" onClick={handleSave}>
-                <SaveIcon className="h-4 w-4 mr-2" />
-                保存
-              </Button>
+              <>
+                <Button variant="outline" size="sm" onClick={handleToggleTextMode}>
+                  {textDraft === null ? (
+                    <TextIcon className="h-4 w-4 mr-2" />
+                  ) : (
+                    <TableIcon className="h-4 w-4 mr-2" />
+                  )}
+                  {textDraft === null ? 'テキストで編集' : '表で編集'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleSave}>
+                  <SaveIcon className="h-4 w-4 mr-2" />
+                  保存
+                </Button>
+              </>
             ) : (
               <Button variant="outline" size="sm" onClick={handleEdit}>
                 <PencilIcon className="h-4 w-4 mr-2" />
                 編集
               </Button>
             )}
-            <Button variant="outline" size="sm" onClick={handleDownload}>
-              <DownloadIcon className="h-4 w-4 mr-2" />
-              ダウンロード
-            </Button>
+            {/* メニューから開くダイアログと操作のロックが競合しないよう、メニューはモーダルにしない */}
+            <DropdownMenu modal={false}>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <DownloadIcon className="h-4 w-4 mr-2" />
+                  ダウンロード
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>書き出し形式</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {CHAPTER_EXPORTERS.map((exporter) => (
+                  <DropdownMenuItem
+                    key={exporter.id}
+                    onSelect={() =>
+                      exporter.usesTimecode
+                        ? setTimecodeExporter(exporter)
+                        : handleDownload(exporter)
+                    }
+                    // 終了時刻が必要な形式は、動画の長さが分からないと最後のチャプターを書き出せない
+                    disabled={exporter.requiresDuration && duration === undefined}
+                  >
+                    {exporter.label}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onSelect={() => mp3InputRef.current?.click()}
+                  // CHAP フレームには終了時刻が必要
+                  disabled={duration === undefined}
+                >
+                  MP3 にチャプターを埋め込む（ID3）…
+                </DropdownMenuItem>
+                {container && (
+                  <DropdownMenuItem onSelect={handleEmbedVideo} disabled={embedding}>
+                    {embedding
+                      ? 'チャプターを書き込み中…'
+                      : `アップロードした動画に埋め込む（${container.label}）`}
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <input
+              ref={mp3InputRef}
+              type="file"
+              accept=".mp3,audio/mpeg"
+              className="hidden"
+              onChange={handleEmbedMp3}
+            />
             <Button variant="default" size="sm" onClick={handleCopy}>
               {copied ? (
                 <CheckIcon className="h-4 w-4 mr-2" />
@@ -96,22 +414,113 @@ export default function ResultsArea({ result, setResult }: ResultsAreaProps) {
           </div>
         </div>
 
-        <Textarea
-          value={result}
-          onChange={(e) => setResult(e.target.value)}
-          className="min-h-[300px] font-mono resize-y"
-          placeholder="チャプターが生成されるとここに表示されます..."
-          readOnly={!isEditing}
-        />
+        {!isEditing ? (
+          <Textarea
+            value={result}
+            className="min-h-[300px] font-mono resize-y"
+            placeholder="チャプターが生成されるとここに表示されます..."
+            readOnly
+          />
+        ) : textDraft !== null ? (
+          <Textarea
+            value={textDraft}
+            onChange={(e) => setTextDraft(e.target.value)}
+            className="min-h-[300px] font-mono resize-y"
+            placeholder="MM:SS チャプタータイトル"
+          />
+        ) : (
+          <div className="space-y-2">
+            {drafts.map((draft, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={draft.time}
+                  onChange={(e) => updateDraft(index, { time: e.target.value })}
+                  className="w-28 font-mono"
+                  placeholder="00:00"
+                  aria-label={`${index + 1} 行目の時刻`}
+                />
+                <Input
+                  value={draft.title}
+                  onChange={(e) => updateDraft(index, { title: e.target.value })}
+                  className="flex-1"
+                  placeholder="チャプタータイトル"
+                  aria-label={`${index + 1} 行目のタイトル`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                  aria-label={`${index + 1} 行目を削除`}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDrafts([...drafts, { time: '', title: '' }])}
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              チャプターを追加
+            </Button>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <Alert className="mt-4">
+            <TriangleAlertIcon className="h-4 w-4" />
+            <AlertTitle>YouTube のチャプターとして認識されない可能性があります</AlertTitle>
+            <AlertDescription className="flex flex-col items-start gap-3">
+              <ul className="list-disc pl-5 text-sm">
+                {issues.map((issue) => (
+                  <li key={`${issue.rule}-${issue.line}`}>
+                    {issue.line} 行目: {issue.message}
+                  </li>
+                ))}
+              </ul>
+              <Button variant="outline" size="sm" onClick={handleAutoFix}>
+                <WandSparklesIcon className="h-4 w-4 mr-2" />
+                自動修正
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {sceneCuts.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold">シーン切り替え（{sceneCuts.length}件）</span>
+              <Button variant="outline" size="sm" onClick={handleSnapToScenes} disabled={isEditing}>
+                <MagnetIcon className="h-4 w-4 mr-2" />
+                シーンに合わせる
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {sceneCuts.map((cut) => (
+                <Badge key={cut} variant="secondary" className="font-mono">
+                  {formatTimestamp(cut)}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
 
         <p className="mt-4 text-sm text-muted-foreground">
-          <span className="font-semibold">形式:</span> MM:SS チャプタータイトル
+          <span className="font-semibold">形式:</span> MM:SS（1時間以上の動画は
+          H:MM:SS）チャプタータイトル
         </p>
         <p className="text-sm text-muted-foreground">
           <span className="font-semibold">注意:</span>{' '}
           YouTubeの規定により、各チャプターは最低10秒以上、3章以上必要です。
         </p>
       </div>
+
+      <TimecodeExportDialog
+        exporter={timecodeExporter}
+        onClose={() => setTimecodeExporter(null)}
+        onExport={handleDownload}
+      />
     </div>
   );
 }
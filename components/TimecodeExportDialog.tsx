@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DownloadIcon } from 'lucide-react';
+import {
+  ChapterExporter,
+  DEFAULT_FRAME_RATE,
+  FRAME_RATES,
+  FrameRate,
+  getFrameRate,
+} from '@/lib/chapterExport';
+import { parseTimestamp } from '@/lib/timestamps';
+
+interface TimecodeExportDialogProps {
+  // 指定されている間だけダイアログを開く
+  exporter: ChapterExporter | null;
+  onClose: () => void;
+  onExport: (
+    exporter: ChapterExporter,
+    settings: { frameRate: FrameRate; timecodeOffset: number }
+  ) => void;
+}
+
+// 映像編集ソフト向けの書き出しで、フレームレートとタイムラインの開始タイムコードを選ぶ
+export default function TimecodeExportDialog({
+  exporter,
+  onClose,
+  onExport,
+}: TimecodeExportDialogProps) {
+  const [frameRateId, setFrameRateId] = useState(DEFAULT_FRAME_RATE.id);
+  const [offset, setOffset] = useState('00:00:00');
+  const timecodeOffset = parseTimestamp(offset);
+
+  const handleExport = () => {
+    if (!exporter || timecodeOffset === null) {
+      return;
+    }
+    onExport(exporter, { frameRate: getFrameRate(frameRateId), timecodeOffset });
+    onClose();
+  };
+
+  return (
+    <Dialog open={exporter !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{exporter?.label}</DialogTitle>
+          <DialogDescription>
+            タイムラインに合わせてフレームレートと開始タイムコードを指定してください。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="frame-rate">フレームレート</Label>
+            <Select value={frameRateId} onValueChange={setFrameRateId}>
+              <SelectTrigger id="frame-rate" className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FRAME_RATES.map((frameRate) => (
+                  <SelectItem key={frameRate.id} value={frameRate.id}>
+                    {frameRate.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timecode-offset">開始タイムコード（HH:MM:SS）</Label>
+            <Input
+              id="timecode-offset"
+              value={offset}
+              onChange={(e) => setOffset(e.target.value)}
+              className="font-mono"
+              placeholder="01:00:00"
+            />
+            {timecodeOffset === null && (
+              <p className="text-sm text-red-600">HH:MM:SS の形式で入力してください</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            キャンセル
+          </Button>
+          <Button onClick={handleExport} disabled={timecodeOffset === null}>
+            <DownloadIcon className="h-4 w-4 mr-2" />
+            ダウンロード
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FINISHED_STATUSES, JobStatus } from '@/lib/types';
+
+// SSE が使えない場合のポーリング間隔
+const POLL_INTERVAL_MS = 1000;
+// 接続が閉じられたときに lastEventId を付けて再接続する回数の上限（超えたらポーリングに切り替える）
+const MAX_RECONNECTS = 3;
+
+interface JobStatusState {
+  job: JobStatus | null;
+  children: JobStatus[];
+  error: string | null;
+}
+
+const INITIAL_STATE: JobStatusState = { job: null, children: [], error: null };
+
+// ジョブの状態を /api/jobs/[id]/events の SSE で購読する
+// EventSource がない環境や接続できない場合は getJobStatusAction のポーリングに切り替える
+export function useJobStatus(jobId: string | null): JobStatusState {
+  const [state, setState] = useState<JobStatusState>(INITIAL_STATE);
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    if (!jobId) return;
+
+    let disposed = false;
+    let eventSource: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let lastEventId: string | null = null;
+    let reconnects = 0;
+
+    const update = (data: JobStatus, children?: JobStatus[]) => {
+      if (disposed) return;
+      setState({ job: data, children: children || [], error: null });
+      if (FINISHED_STATUSES.includes(data.status)) {
+        dispose();
+      }
+    };
+
+    const fail = (error: string) => {
+      if (disposed) return;
+      setState((current) => ({ ...current, error }));
+      dispose();
+    };
+
+    const poll = async () => {
+      try {
+        const { getJobStatusAction } = await import('@/app/actions/video-actions');
+        const result = await getJobStatusAction(jobId);
+        if (!result.success || !result.data) {
+          fail(result.error || 'ステータスの取得に失敗しました');
+          return;
+        }
+        update(result.data, result.children);
+      } catch (error) {
+        // 一時的な通信エラーは次の確認で取り直す
+      }
+    };
+
+    const startPolling = () => {
+      eventSource?.close();
+      eventSource = null;
+      if (disposed || pollTimer) return;
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const connect = () => {
+      const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+      const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events${query}`);
+      eventSource = source;
+
+      source.addEventListener('status', (event) => {
+        const message = event as MessageEvent<string>;
+        lastEventId = message.lastEventId || lastEventId;
+        reconnects = 0;
+        const { data, children } = JSON.parse(message.data);
+        update(data, children);
+      });
+
+      source.onerror = () => {
+        // 接続中のエラーは EventSource が Last-Event-ID を付けて自動で再接続する
+        if (disposed || source.readyState !== EventSource.CLOSED) return;
+        source.close();
+        if (reconnects < MAX_RECONNECTS) {
+          reconnects++;
+          connect();
+        } else {
+          startPolling();
+        }
+      };
+    };
+
+    const dispose = () => {
+      disposed = true;
+      eventSource?.close();
+      if (pollTimer) {
+        clearInterval(pollTimer);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      connect();
+    }
+
+    return dispose;
+  }, [jobId]);
+
+  return state;
+}
@@ -0,0 +1,10 @@
+// サーバー起動時にジョブワーカーを開始し、前回停止時に残ったジョブも処理する
+// 保存期間を過ぎたジョブの削除もここで開始する
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startInlineWorker } = await import('./lib/queue');
+    const { startJobSweeper } = await import('./lib/jobStore');
+    startInlineWorker();
+    startJobSweeper();
+  }
+}
@@ -0,0 +1,17 @@
+// 再エンコードせずにチャプターを書き込めるコンテナ（ffmpeg の -c copy で remux する）
+export interface ChapterContainer {
+  extension: string;
+  mimeType: string;
+  label: string;
+}
+
+export const CHAPTER_CONTAINERS: ChapterContainer[] = [
+  { extension: '.mp4', mimeType: 'video/mp4', label: 'MP4' },
+  { extension: '.mov', mimeType: 'video/quicktime', label: 'MOV' },
+  { extension: '.mkv', mimeType: 'video/x-matroska', label: 'MKV' },
+];
+
+export function getChapterContainer(fileName: string): ChapterContainer | undefined {
+  const lower = fileName.toLowerCase();
+  return CHAPTER_CONTAINERS.find((container) => lower.endsWith(container.extension));
+}
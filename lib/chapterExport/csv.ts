@@ -0,0 +1,10 @@
+// カンマ・引用符・改行を含む値は引用符で囲む
+function escapeCsvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 表計算ソフトで文字化けしないよう、先頭に BOM を付けた CRLF 区切りの CSV にする
+export function toCsv(rows: (string | number)[][]): string {
+  return `\uFEFF${rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,61 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { ChapterExportContext, ChapterExporter } from './types';
+import { FrameRate, timecodeSettings, toFrames } from './frameRates';
+import { escapeXml } from './xml';
+
+// FCPXML の時刻はフレームの長さの整数倍を分数の秒で表す（例: 1001/30000s）
+function toRationalTime(frames: number, frameRate: FrameRate): string {
+  if (frames === 0) {
+    return '0s';
+  }
+  const { numerator, denominator } = frameRate.frameDuration;
+  return denominator === 1 ? `${frames * numerator}s` : `${frames * numerator}/${denominator}s`;
+}
+
+// Final Cut Pro に読み込むと、チャプターマーカー付きの空のプロジェクトができる FCPXML
+export class FcpxmlExporter implements ChapterExporter {
+  public readonly id = 'fcpxml';
+  public readonly label = 'Final Cut Pro チャプターマーカー（FCPXML）';
+  public readonly fileExtension = 'fcpxml';
+  public readonly mimeType = 'application/xml';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = true;
+
+  public export(chapters: Chapter[], context: ChapterExportContext): string {
+    const { frameRate, offset } = timecodeSettings(context);
+    const ranges = chapterRanges(chapters, context.duration);
+    const name = escapeXml(context.title || 'Chapters');
+    const tcStart = toFrames(offset, frameRate);
+    const totalFrames = Math.max(1, toFrames(ranges[ranges.length - 1]?.end ?? 0, frameRate));
+    const time = (frames: number) => toRationalTime(frames, frameRate);
+
+    // マーカーは親のギャップの start を基準にした位置に置く
+    const markers = ranges.map(
+      (chapter) =>
+        `              <chapter-marker start="${time(tcStart + toFrames(chapter.start, frameRate))}" duration="${time(1)}" value="${escapeXml(chapter.title)}" posterOffset="0s"/>`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="${time(1)}" width="1920" height="1080"/>
+  </resources>
+  <library>
+    <event name="${name}">
+      <project name="${name}">
+        <sequence format="r1" duration="${time(totalFrames)}" tcStart="${time(tcStart)}" tcFormat="${frameRate.dropFrame ? 'DF' : 'NDF'}">
+          <spine>
+            <gap name="Gap" offset="${time(tcStart)}" start="${time(tcStart)}" duration="${time(totalFrames)}">
+${markers.join('\n')}
+            </gap>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+  }
+}
@@ -0,0 +1,32 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { ChapterExportContext, ChapterExporter } from './types';
+
+// FFMETADATA で特別な意味を持つ文字（= ; # \ と改行）はバックスラッシュでエスケープする
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+}
+
+// ffmpeg -i video.mp4 -i chapters.txt -map_metadata 1 で動画に埋め込める FFMETADATA1 形式
+export class FfmetadataChapterExporter implements ChapterExporter {
+  public readonly id = 'ffmetadata';
+  public readonly label = 'FFmpeg メタデータ（FFMETADATA1）';
+  public readonly fileExtension = 'ffmetadata.txt';
+  public readonly mimeType = 'text/plain';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[], { duration, title }: ChapterExportContext): string {
+    const header = [';FFMETADATA1', ...(title ? [`title=${escapeMetadata(title)}`] : [])];
+    const blocks = chapterRanges(chapters, duration).map((chapter) =>
+      [
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        `START=${Math.round(chapter.start * 1000)}`,
+        `END=${Math.round(chapter.end * 1000)}`,
+        `title=${escapeMetadata(chapter.title)}`,
+      ].join('\n')
+    );
+    return `${[header.join('\n'), ...blocks].join('\n\n')}\n`;
+  }
+}
@@ -0,0 +1,75 @@
+import { formatTimecode } from '../timestamps';
+
+export interface FrameRate {
+  id: string;
+  label: string;
+  fps: number;
+  dropFrame: boolean;
+  // 1フレームの長さ（秒）を分数で表したもの（FCPXML の frameDuration に使う）
+  frameDuration: { numerator: number; denominator: number };
+}
+
+// 映像編集ソフト向けの書き出しで選べるフレームレート
+export const FRAME_RATES: FrameRate[] = [
+  {
+    id: '23.976',
+    label: '23.976 fps',
+    fps: 24000 / 1001,
+    dropFrame: false,
+    frameDuration: { numerator: 1001, denominator: 24000 },
+  },
+  {
+    id: '25',
+    label: '25 fps',
+    fps: 25,
+    dropFrame: false,
+    frameDuration: { numerator: 1, denominator: 25 },
+  },
+  {
+    id: '29.97df',
+    label: '29.97 fps（ドロップフレーム）',
+    fps: 30000 / 1001,
+    dropFrame: true,
+    frameDuration: { numerator: 1001, denominator: 30000 },
+  },
+  {
+    id: '30',
+    label: '30 fps',
+    fps: 30,
+    dropFrame: false,
+    frameDuration: { numerator: 1, denominator: 30 },
+  },
+  {
+    id: '60',
+    label: '60 fps',
+    fps: 60,
+    dropFrame: false,
+    frameDuration: { numerator: 1, denominator: 60 },
+  },
+];
+
+export const DEFAULT_FRAME_RATE = FRAME_RATES[2];
+
+export function getFrameRate(id: string): FrameRate {
+  return FRAME_RATES.find((frameRate) => frameRate.id === id) ?? DEFAULT_FRAME_RATE;
+}
+
+// 秒をフレーム数に変換する（フレームの境界に丸める）
+export function toFrames(seconds: number, frameRate: FrameRate): number {
+  return Math.round(seconds * frameRate.fps);
+}
+
+export function toTimecode(seconds: number, frameRate: FrameRate): string {
+  return formatTimecode(seconds, frameRate.fps, { dropFrame: frameRate.dropFrame });
+}
+
+// 書き出しの設定が省略された場合の既定値を補う
+export function timecodeSettings(context: { frameRate?: FrameRate; timecodeOffset?: number }): {
+  frameRate: FrameRate;
+  offset: number;
+} {
+  return {
+    frameRate: context.frameRate ?? DEFAULT_FRAME_RATE,
+    offset: context.timecodeOffset ?? 0,
+  };
+}
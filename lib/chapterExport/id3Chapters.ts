@@ -0,0 +1,194 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+
+// ID3v2 のタグに CHAP（各チャプター）と CTOC（目次）フレームを書き込み、MP3 にチャプターを埋め込む
+// 既存のタグがあればチャプター以外のフレーム（タイトルやアートワークなど）はそのまま残す
+
+const HEADER_SIZE = 10;
+// CTOC の子要素の数は1バイトで表すため、これを超えるチャプターは書き込めない
+const MAX_CHAPTERS = 255;
+// 開始・終了位置をバイトオフセットで指定しないことを表す値
+const NO_OFFSET = 0xffffffff;
+
+// チャプターを書き込めない MP3 や ID3 タグの場合のエラー
+export class Id3ChapterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Id3ChapterError';
+  }
+}
+
+interface Id3Frame {
+  id: string;
+  // 既存のフレームのフラグ（圧縮などで本文の解釈が変わるため、そのまま書き戻す）
+  flags?: number[];
+  body: Uint8Array;
+}
+
+// 各バイトの最上位ビットを使わない 28 ビットの整数（タグのサイズ、v2.4 のフレームサイズ）
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3]
+  );
+}
+
+function syncsafe(value: number): number[] {
+  return [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  );
+}
+
+function latin1(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+}
+
+function concat(parts: (Uint8Array | number[])[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+// v2.3 / v2.4 のどちらでも読める UTF-16（BOM 付き）のテキストフレーム
+function textFrame(id: string, text: string): Id3Frame {
+  const units: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units.push(code & 0xff, code >> 8);
+  }
+  return { id, body: concat([[0x01, 0xff, 0xfe], units]) };
+}
+
+function encodeFrame(frame: Id3Frame, version: number): Uint8Array {
+  const size = version === 4 ? syncsafe(frame.body.length) : uint32(frame.body.length);
+  return concat([latin1(frame.id), size, frame.flags ?? [0, 0], frame.body]);
+}
+
+function chapterFrame(elementId: string, chapter: Required<Chapter>, version: number): Id3Frame {
+  return {
+    id: 'CHAP',
+    body: concat([
+      latin1(elementId),
+      [0],
+      uint32(Math.round(chapter.start * 1000)),
+      uint32(Math.round(chapter.end * 1000)),
+      uint32(NO_OFFSET),
+      uint32(NO_OFFSET),
+      encodeFrame(textFrame('TIT2', chapter.title), version),
+    ]),
+  };
+}
+
+function tableOfContentsFrame(
+  elementIds: string[],
+  title: string | undefined,
+  version: number
+): Id3Frame {
+  return {
+    id: 'CTOC',
+    body: concat([
+      latin1('toc'),
+      [0],
+      // 最上位の目次で、子要素は順序どおりに再生する
+      [0x03],
+      [elementIds.length],
+      ...elementIds.map((elementId) => [...latin1(elementId), 0]),
+      ...(title ? [encodeFrame(textFrame('TIT2', title), version)] : []),
+    ]),
+  };
+}
+
+// 既存の ID3v2 タグを読み取る（タグがなければ null）
+function readTag(bytes: Uint8Array): { version: number; frames: Id3Frame[]; size: number } | null {
+  if (
+    bytes.length < HEADER_SIZE ||
+    String.fromCharCode(...Array.from(bytes.subarray(0, 3))) !== 'ID3'
+  ) {
+    return null;
+  }
+  const version = bytes[3];
+  const flags = bytes[5];
+  const tagSize = readSyncsafe(bytes, 6);
+  // フッターがある場合はその分も既存のタグとして取り除く
+  const size = HEADER_SIZE + tagSize + (flags & 0x10 ? HEADER_SIZE : 0);
+
+  if (version !== 3 && version !== 4) {
+    throw new Id3ChapterError(`ID3v2.${version} のタグには対応していません`);
+  }
+  if (flags & 0x80) {
+    throw new Id3ChapterError('非同期化された ID3 タグには対応していません');
+  }
+
+  let offset = HEADER_SIZE;
+  // 拡張ヘッダーは読み飛ばす（v2.3 はサイズ自体を含まない）
+  if (flags & 0x40) {
+    offset += version === 4 ? readSyncsafe(bytes, offset) : readUint32(bytes, offset) + 4;
+  }
+
+  const frames: Id3Frame[] = [];
+  const end = HEADER_SIZE + tagSize;
+  while (offset + HEADER_SIZE <= end && bytes[offset] !== 0) {
+    const id = String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+    const frameSize =
+      version === 4 ? readSyncsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+    const bodyStart = offset + HEADER_SIZE;
+    if (bodyStart + frameSize > end) {
+      throw new Id3ChapterError('ID3 タグが壊れています');
+    }
+    frames.push({
+      id,
+      flags: [bytes[offset + 8], bytes[offset + 9]],
+      body: bytes.slice(bodyStart, bodyStart + frameSize),
+    });
+    offset = bodyStart + frameSize;
+  }
+  return { version, frames, size };
+}
+
+// MP3 の先頭の ID3v2 タグにチャプターを書き込んだ新しいファイルの内容を返す
+export function embedId3Chapters(
+  mp3: Uint8Array,
+  chapters: Chapter[],
+  { duration, title }: { duration?: number; title?: string } = {}
+): Uint8Array {
+  if (chapters.length === 0) {
+    throw new Id3ChapterError('書き込むチャプターがありません');
+  }
+  if (chapters.length > MAX_CHAPTERS) {
+    throw new Id3ChapterError(`ID3 タグに書き込めるチャプターは${MAX_CHAPTERS}件までです`);
+  }
+
+  const existing = readTag(mp3);
+  const version = existing?.version ?? 3;
+  // 以前に書き込んだチャプターは置き換える
+  const keptFrames = (existing?.frames ?? []).filter(
+    (frame) => frame.id !== 'CHAP' && frame.id !== 'CTOC'
+  );
+  const elementIds = chapters.map((_, index) => `chp${index}`);
+  const frames = [
+    ...keptFrames,
+    tableOfContentsFrame(elementIds, title, version),
+    ...chapterRanges(chapters, duration).map((chapter, index) =>
+      chapterFrame(elementIds[index], chapter, version)
+    ),
+  ];
+
+  const body = concat(frames.map((frame) => encodeFrame(frame, version)));
+  const header = concat([latin1('ID3'), [version, 0, 0], syncsafe(body.length)]);
+  return concat([header, body, mp3.subarray(existing?.size ?? 0)]);
+}
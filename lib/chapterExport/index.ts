@@ -0,0 +1,39 @@
+import { ChapterExporter } from './types';
+import { TextChapterExporter } from './textExporter';
+import { WebVttChapterExporter } from './webVttExporter';
+import { FfmetadataChapterExporter } from './ffmetadataExporter';
+import { PremiereMarkerExporter } from './premiereExporter';
+import { ResolveEdlExporter, ResolveMarkerCsvExporter } from './resolveExporter';
+import { FcpxmlExporter } from './fcpxmlExporter';
+import { PodloveChapterExporter } from './podloveExporter';
+import { PodcastingJsonChapterExporter } from './podcastingJsonExporter';
+import { MatroskaChapterExporter } from './matroskaExporter';
+
+export type { ChapterExportContext, ChapterExporter } from './types';
+export type { FrameRate } from './frameRates';
+export type { ChapterContainer } from './containers';
+export { DEFAULT_FRAME_RATE, FRAME_RATES, getFrameRate } from './frameRates';
+export { embedId3Chapters, Id3ChapterError } from './id3Chapters';
+export { CHAPTER_CONTAINERS, getChapterContainer } from './containers';
+
+// 書き出しメニューに表示する順
+export const CHAPTER_EXPORTERS: ChapterExporter[] = [
+  new TextChapterExporter(),
+  new WebVttChapterExporter(),
+  new FfmetadataChapterExporter(),
+  new MatroskaChapterExporter(),
+  new PremiereMarkerExporter(),
+  new ResolveEdlExporter(),
+  new ResolveMarkerCsvExporter(),
+  new FcpxmlExporter(),
+  new PodloveChapterExporter(),
+  new PodcastingJsonChapterExporter(),
+];
+
+export function getChapterExporter(id: string): ChapterExporter {
+  const exporter = CHAPTER_EXPORTERS.find((candidate) => candidate.id === id);
+  if (!exporter) {
+    throw new Error(`未対応の書き出し形式です: ${id}`);
+  }
+  return exporter;
+}
@@ -0,0 +1,49 @@
+import { Chapter } from '../types';
+import { chapterEnd } from '../chapters';
+import { formatTimestamp } from '../timestamps';
+import { ChapterExportContext, ChapterExporter } from './types';
+import { escapeXml } from './xml';
+
+// Matroska のチャプター時刻はナノ秒単位まで書ける（HH:MM:SS.nnnnnnnnn）
+function toMatroskaTime(seconds: number): string {
+  return `${formatTimestamp(seconds, { hours: 'always', padHours: true, milliseconds: '.' })}000000`;
+}
+
+// mkvmerge --chapters や mkvpropedit で MKV に取り込める Matroska チャプター XML
+// 終了時刻は分かる場合だけ書き出す（最後のチャプターは動画の長さが必要）
+export class MatroskaChapterExporter implements ChapterExporter {
+  public readonly id = 'matroska';
+  public readonly label = 'Matroska チャプター（MKV 用 XML）';
+  public readonly fileExtension = 'chapters.xml';
+  public readonly mimeType = 'application/xml';
+  public readonly requiresDuration = false;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[], { duration }: ChapterExportContext): string {
+    const atoms = chapters.map((chapter, index) => {
+      const end = chapterEnd(chapters, index, duration);
+      return [
+        '    <ChapterAtom>',
+        `      <ChapterUID>${index + 1}</ChapterUID>`,
+        `      <ChapterTimeStart>${toMatroskaTime(chapter.start)}</ChapterTimeStart>`,
+        ...(end > chapter.start
+          ? [`      <ChapterTimeEnd>${toMatroskaTime(end)}</ChapterTimeEnd>`]
+          : []),
+        '      <ChapterDisplay>',
+        `        <ChapterString>${escapeXml(chapter.title)}</ChapterString>`,
+        '        <ChapterLanguage>und</ChapterLanguage>',
+        '      </ChapterDisplay>',
+        '    </ChapterAtom>',
+      ].join('\n');
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE Chapters SYSTEM "matroskachapters.dtd">
+<Chapters>
+  <EditionEntry>
+    <EditionFlagDefault>1</EditionFlagDefault>
+${atoms.join('\n')}
+  </EditionEntry>
+</Chapters>
+`;
+  }
+}
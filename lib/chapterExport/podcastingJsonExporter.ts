@@ -0,0 +1,23 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { ChapterExportContext, ChapterExporter } from './types';
+
+// Podcasting 2.0 の <podcast:chapters type="application/json+chapters"> で参照する JSON
+// 動画の長さが分かる場合は各チャプターの終了時刻も書く
+export class PodcastingJsonChapterExporter implements ChapterExporter {
+  public readonly id = 'podcasting-json';
+  public readonly label = 'Podcasting 2.0 チャプター（JSON）';
+  public readonly fileExtension = 'chapters.json';
+  public readonly mimeType = 'application/json+chapters';
+  public readonly requiresDuration = false;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[], { duration, title }: ChapterExportContext): string {
+    const items = chapterRanges(chapters, duration).map((chapter) => ({
+      startTime: chapter.start,
+      ...(chapter.end > chapter.start ? { endTime: chapter.end } : {}),
+      title: chapter.title,
+    }));
+    return `${JSON.stringify({ version: '1.2.0', ...(title ? { title } : {}), chapters: items }, null, 2)}\n`;
+  }
+}
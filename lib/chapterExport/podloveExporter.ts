@@ -0,0 +1,30 @@
+import { Chapter } from '../types';
+import { formatTimestamp } from '../timestamps';
+import { ChapterExporter } from './types';
+import { escapeXml } from './xml';
+
+// ポッドキャストのフィードに埋め込む Podlove Simple Chapters（開始時刻のみを持つ）
+export class PodloveChapterExporter implements ChapterExporter {
+  public readonly id = 'podlove';
+  public readonly label = 'Podlove Simple Chapters（XML）';
+  public readonly fileExtension = 'psc.xml';
+  public readonly mimeType = 'application/xml';
+  public readonly requiresDuration = false;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[]): string {
+    const items = chapters.map((chapter) => {
+      const start = formatTimestamp(chapter.start, {
+        hours: 'always',
+        padHours: true,
+        milliseconds: '.',
+      });
+      return `  <psc:chapter start="${start}" title="${escapeXml(chapter.title)}" />`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<psc:chapters version="1.2" xmlns:psc="http://podlove.org/simple-chapters">
+${items.join('\n')}
+</psc:chapters>
+`;
+  }
+}
@@ -0,0 +1,28 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { ChapterExportContext, ChapterExporter } from './types';
+import { timecodeSettings, toTimecode } from './frameRates';
+import { toCsv } from './csv';
+
+// Premiere Pro のマーカー書き出しと同じ列構成の CSV（マーカーの種類はチャプター）
+export class PremiereMarkerExporter implements ChapterExporter {
+  public readonly id = 'premiere-csv';
+  public readonly label = 'Premiere Pro マーカー CSV';
+  public readonly fileExtension = 'premiere.csv';
+  public readonly mimeType = 'text/csv';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = true;
+
+  public export(chapters: Chapter[], context: ChapterExportContext): string {
+    const { frameRate, offset } = timecodeSettings(context);
+    const rows = chapterRanges(chapters, context.duration).map((chapter) => [
+      chapter.title,
+      '',
+      toTimecode(offset + chapter.start, frameRate),
+      toTimecode(offset + chapter.end, frameRate),
+      toTimecode(chapter.end - chapter.start, frameRate),
+      'Chapter',
+    ]);
+    return toCsv([['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type'], ...rows]);
+  }
+}
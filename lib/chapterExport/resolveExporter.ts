@@ -0,0 +1,64 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { ChapterExportContext, ChapterExporter } from './types';
+import { timecodeSettings, toFrames, toTimecode } from './frameRates';
+import { toCsv } from './csv';
+
+const MARKER_COLOR = 'Blue';
+
+// DaVinci Resolve の「タイムラインマーカーを EDL から読み込み」で使える EDL
+// 各イベントの 1 フレームの位置にマーカーを置き、チャプターの長さを D: に書く
+export class ResolveEdlExporter implements ChapterExporter {
+  public readonly id = 'resolve-edl';
+  public readonly label = 'DaVinci Resolve マーカー EDL';
+  public readonly fileExtension = 'edl';
+  public readonly mimeType = 'text/plain';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = true;
+
+  public export(chapters: Chapter[], context: ChapterExportContext): string {
+    const { frameRate, offset } = timecodeSettings(context);
+    const events = chapterRanges(chapters, context.duration).map((chapter, index) => {
+      const markerIn = toTimecode(offset + chapter.start, frameRate);
+      const markerOut = toTimecode(offset + chapter.start + 1 / frameRate.fps, frameRate);
+      const frames = Math.max(1, toFrames(chapter.end - chapter.start, frameRate));
+      // マーカー名の「|」は項目の区切りと誤認されるため置き換える
+      const name = chapter.title.replace(/[|\r\n]/g, ' ');
+      return [
+        `${String(index + 1).padStart(3, '0')}  001      V     C        ${markerIn} ${markerOut} ${markerIn} ${markerOut}  `,
+        ` |C:ResolveColor${MARKER_COLOR} |M:${name} |D:${frames}`,
+      ].join('\n');
+    });
+
+    return [
+      `TITLE: ${context.title || 'Chapters'}`,
+      `FCM: ${frameRate.dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+      '',
+      ...events.map((event) => `${event}\n`),
+    ].join('\n');
+  }
+}
+
+// DaVinci Resolve のマーカー一覧と同じ項目の CSV（スプレッドシートでの確認や他ツールへの受け渡し用）
+export class ResolveMarkerCsvExporter implements ChapterExporter {
+  public readonly id = 'resolve-csv';
+  public readonly label = 'DaVinci Resolve マーカー CSV';
+  public readonly fileExtension = 'resolve.csv';
+  public readonly mimeType = 'text/csv';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = true;
+
+  public export(chapters: Chapter[], context: ChapterExportContext): string {
+    const { frameRate, offset } = timecodeSettings(context);
+    const rows = chapterRanges(chapters, context.duration).map((chapter, index) => [
+      index + 1,
+      chapter.title,
+      toTimecode(offset + chapter.start, frameRate),
+      toTimecode(offset + chapter.end, frameRate),
+      toFrames(chapter.end - chapter.start, frameRate),
+      MARKER_COLOR,
+      '',
+    ]);
+    return toCsv([['#', 'Name', 'Record In', 'Record Out', 'Duration', 'Color', 'Notes'], ...rows]);
+  }
+}
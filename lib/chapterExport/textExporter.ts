@@ -0,0 +1,17 @@
+import { Chapter } from '../types';
+import { serializeChapters } from '../chapters';
+import { ChapterExporter } from './types';
+
+// YouTube の概要欄に貼り付ける「MM:SS タイトル」形式
+export class TextChapterExporter implements ChapterExporter {
+  public readonly id = 'text';
+  public readonly label = 'テキスト（YouTube 概要欄用）';
+  public readonly fileExtension = 'txt';
+  public readonly mimeType = 'text/plain';
+  public readonly requiresDuration = false;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[]): string {
+    return `${serializeChapters(chapters)}\n`;
+  }
+}
@@ -0,0 +1,26 @@
+import { Chapter } from '../types';
+import { FrameRate } from './frameRates';
+
+export interface ChapterExportContext {
+  // 動画の長さ（秒）。最後のチャプターの終了時刻に使う
+  duration?: number;
+  title?: string;
+  // 映像編集ソフト向けの形式で使うフレームレートと、タイムラインの開始タイムコード（秒）
+  frameRate?: FrameRate;
+  timecodeOffset?: number;
+}
+
+// 書き出し形式ごとの実装が満たすインターフェース
+export interface ChapterExporter {
+  readonly id: string;
+  // メニューに表示する名前
+  readonly label: string;
+  readonly fileExtension: string;
+  readonly mimeType: string;
+  // 最後のチャプターの終了時刻が必要な形式（動画の長さが分からない場合は書き出せない）
+  readonly requiresDuration: boolean;
+  // フレームレートと開始タイムコードを指定する形式
+  readonly usesTimecode: boolean;
+
+  export(chapters: Chapter[], context: ChapterExportContext): string;
+}
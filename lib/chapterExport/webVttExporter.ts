@@ -0,0 +1,35 @@
+import { Chapter } from '../types';
+import { chapterRanges } from '../chapters';
+import { formatTimestamp } from '../timestamps';
+import { ChapterExportContext, ChapterExporter } from './types';
+
+// キューの本文で使えない文字をエスケープする（「-->」も > のエスケープでキューの区切りと誤認されなくなる）
+function escapeCueText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, ' ');
+}
+
+function formatCueTime(seconds: number): string {
+  return formatTimestamp(seconds, { hours: 'always', padHours: true, milliseconds: '.' });
+}
+
+// HTML5 の <track kind="chapters"> や Video.js で読み込める WebVTT のチャプタートラック
+export class WebVttChapterExporter implements ChapterExporter {
+  public readonly id = 'webvtt';
+  public readonly label = 'WebVTT チャプター（HTML5 / Video.js）';
+  public readonly fileExtension = 'vtt';
+  public readonly mimeType = 'text/vtt';
+  public readonly requiresDuration = true;
+  public readonly usesTimecode = false;
+
+  public export(chapters: Chapter[], { duration }: ChapterExportContext): string {
+    const cues = chapterRanges(chapters, duration).map(
+      (chapter, index) =>
+        `${index + 1}\n${formatCueTime(chapter.start)} --> ${formatCueTime(chapter.end)}\n${escapeCueText(chapter.title)}`
+    );
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+}
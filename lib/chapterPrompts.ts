@@ -0,0 +1,108 @@
+import { toBaseLanguage } from './languageDetection';
+import { formatTimestamp } from './timestamps';
+
+export interface ChapterPromptParams {
+  language: string;
+  minChapters: number;
+  maxChapters: number;
+  // timestampFormat の形式の総再生時間
+  totalDuration: string;
+  // 出力させるタイムスタンプの形式（1時間を超える動画は H:MM:SS）
+  timestampFormat: 'MM:SS' | 'H:MM:SS';
+  // 「時刻 内容」形式の文字起こしの要約
+  formattedSegments: string;
+}
+
+export interface ChapterPrompt {
+  system: string;
+  user: string;
+}
+
+// 出力例の時刻（タイムスタンプの形式に合わせる）
+function exampleTimestamps(timestampFormat: ChapterPromptParams['timestampFormat']): string[] {
+  const hours = timestampFormat === 'H:MM:SS' ? 'always' : 'auto';
+  return [0, 90, 225].map((seconds) => formatTimestamp(seconds, { hours }));
+}
+
+function buildJapanesePrompt(params: ChapterPromptParams): ChapterPrompt {
+  const { minChapters, maxChapters, totalDuration, timestampFormat, formattedSegments } = params;
+  const [first, second, third] = exampleTimestamps(timestampFormat);
+
+  return {
+    system: `あなたは動画のチャプターを生成する専門家です。
+与えられた文字起こしから、時間と内容を考慮して適切なチャプターを生成してください。
+必ず「${timestampFormat} 章タイトル」の形式で出力し、${first}から始めてください。
+動画の総再生時間（${totalDuration}）を超えないように注意してください。
+各セグメントの時間と内容を参考に、自然な話題の転換点でチャプターを設定してください。`,
+    user: `以下の文字起こしから、重要な話題の切れ目を検出して${minChapters}〜${maxChapters}個のチャプターを生成してください。
+動画の総再生時間は${totalDuration}です。
+
+文字起こし（時間と内容）:
+${formattedSegments}
+
+上記の文字起こしから、以下のルールに従ってチャプターを生成してください：
+1. 各チャプターは「${timestampFormat} 章タイトル」の形式で出力
+2. 必ず${first}から始める
+3. 最後のチャプターの時間は${totalDuration}を超えない
+4. 文字起こしの時間を参考に、話題の転換点でチャプターを設定
+5. 各セグメントの内容を要約して、適切な章タイトルを設定
+6. チャプター数は${minChapters}〜${maxChapters}個を目安に
+
+出力例：
+${first} 導入と自己紹介
+${second} メインテーマの説明
+${third} 具体的な事例の紹介
+...`,
+  };
+}
+
+// 日本語以外の動画は英語で指示し、章タイトルは動画の言語で書かせる
+function buildEnglishPrompt(params: ChapterPromptParams): ChapterPrompt {
+  const { language, minChapters, maxChapters, totalDuration, timestampFormat, formattedSegments } =
+    params;
+  const languageName = getLanguageName(language);
+  const [first, second, third] = exampleTimestamps(timestampFormat);
+
+  return {
+    system: `You are an expert at creating chapters for videos.
+Create appropriate chapters from the given transcript, considering both timing and content.
+Always output in the format "${timestampFormat} Chapter title" and start at ${first}.
+Make sure no chapter exceeds the total video length (${totalDuration}).
+Use the timing and content of each segment to place chapters at natural topic transitions.
+Write the chapter titles in ${languageName}.`,
+    user: `Detect the important topic changes in the following transcript and create ${minChapters} to ${maxChapters} chapters.
+The total length of the video is ${totalDuration}.
+
+Transcript (time and content):
+${formattedSegments}
+
+Create the chapters from the transcript above following these rules:
+1. Output each chapter as "${timestampFormat} Chapter title"
+2. Always start at ${first}
+3. The last chapter must not exceed ${totalDuration}
+4. Use the transcript timing to place chapters at topic transitions
+5. Summarize each segment into a fitting chapter title written in ${languageName}
+6. Aim for ${minChapters} to ${maxChapters} chapters
+
+Example output:
+${first} Introduction
+${second} Overview of the main topic
+${third} Walking through a concrete example
+...`,
+  };
+}
+
+function getLanguageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch (error) {
+    return language;
+  }
+}
+
+// 動画の言語に合わせたチャプター生成用のプロンプトを作成
+export function buildChapterPrompt(params: ChapterPromptParams): ChapterPrompt {
+  return toBaseLanguage(params.language) === 'ja'
+    ? buildJapanesePrompt(params)
+    : buildEnglishPrompt(params);
+}
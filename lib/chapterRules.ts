@@ -0,0 +1,141 @@
+import { Chapter } from './types';
+import { chapterEnd } from './chapters';
+import { formatTimestamp } from './timestamps';
+
+// YouTube がチャプターとして認識するための条件
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+
+export type ChapterRule =
+  | 'tooFew'
+  | 'firstNotZero'
+  | 'notAscending'
+  | 'duplicate'
+  | 'tooShort'
+  | 'beyondDuration';
+
+export interface ChapterIssue {
+  rule: ChapterRule;
+  // 問題のある行（1始まり）
+  line: number;
+  message: string;
+}
+
+interface ValidateOptions {
+  // 動画の長さ（秒）。不明な場合は長さに関する確認を省く
+  duration?: number;
+  // チャプターごとの行番号（テキストで編集している場合など、並び順と行が一致しないとき）
+  lines?: number[];
+}
+
+// チャプターが YouTube の条件を満たしているか確認し、違反ごとに行番号付きで返す
+export function validateChapters(
+  chapters: Chapter[],
+  { duration, lines }: ValidateOptions = {}
+): ChapterIssue[] {
+  const issues: ChapterIssue[] = [];
+  const lineOf = (index: number) => lines?.[index] ?? index + 1;
+
+  if (chapters.length < MIN_CHAPTERS) {
+    issues.push({
+      rule: 'tooFew',
+      line: chapters.length > 0 ? lineOf(chapters.length - 1) : 1,
+      message: `チャプターは${MIN_CHAPTERS}件以上必要です（現在${chapters.length}件）`,
+    });
+  }
+  if (chapters.length > 0 && chapters[0].start !== 0) {
+    issues.push({
+      rule: 'firstNotZero',
+      line: lineOf(0),
+      message: `最初のチャプターは 00:00 から始める必要があります（${formatTimestamp(chapters[0].start)}）`,
+    });
+  }
+
+  chapters.forEach((chapter, index) => {
+    const previous = chapters[index - 1];
+    if (previous && chapter.start === previous.start) {
+      issues.push({
+        rule: 'duplicate',
+        line: lineOf(index),
+        message: `${lineOf(index - 1)} 行目と同じ時刻です（${formatTimestamp(chapter.start)}）`,
+      });
+      return;
+    }
+    if (previous && chapter.start < previous.start) {
+      issues.push({
+        rule: 'notAscending',
+        line: lineOf(index),
+        message: `${lineOf(index - 1)} 行目より前の時刻です（${formatTimestamp(chapter.start)}）`,
+      });
+      return;
+    }
+    if (duration !== undefined && chapter.start >= duration) {
+      issues.push({
+        rule: 'beyondDuration',
+        line: lineOf(index),
+        message: `動画の長さ（${formatTimestamp(duration)}）を超えています`,
+      });
+      return;
+    }
+
+    // 最後のチャプターは動画の長さが分かる場合だけ確認する
+    const next = chapters[index + 1];
+    if (!next && duration === undefined) {
+      return;
+    }
+    const length = chapterEnd(chapters, index, duration) - chapter.start;
+    // 次のチャプターと時刻が重なる場合は、次の行で重複・順序の問題として報告する
+    if (length > 0 && length < MIN_CHAPTER_SECONDS) {
+      issues.push({
+        rule: 'tooShort',
+        line: lineOf(index),
+        message: `チャプターの長さが${MIN_CHAPTER_SECONDS}秒未満です（${Math.round(length)}秒）`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+// 条件を満たすようにチャプターを並べ替え・統合・移動する
+// チャプターの数が足りない場合は補えないため、そのまま返す
+export function autoFixChapters(chapters: Chapter[], duration?: number): Chapter[] {
+  // 動画の長さを超えるものを除き、時刻順に並べ、同じ時刻のものは先のものだけを残す
+  const sorted = chapters
+    .filter((chapter) => duration === undefined || chapter.start < duration)
+    .map((chapter) => ({ start: Math.max(0, Math.floor(chapter.start)), title: chapter.title }))
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, all) => index === 0 || chapter.start !== all[index - 1].start);
+
+  if (sorted.length === 0) {
+    return sorted;
+  }
+  // 最初のチャプターを 00:00 に移動する
+  sorted[0] = { ...sorted[0], start: 0 };
+
+  // 直前のチャプターとの間隔が短いものは直前のチャプターに統合する
+  const fixed: Chapter[] = [];
+  sorted.forEach((chapter) => {
+    const previous = fixed[fixed.length - 1];
+    if (previous && chapter.start - previous.start < MIN_CHAPTER_SECONDS) {
+      return;
+    }
+    fixed.push(chapter);
+  });
+
+  // 最後のチャプターが短い場合は開始を前にずらし、ずらせなければ直前のチャプターに統合する
+  if (duration !== undefined && fixed.length > 1) {
+    const last = fixed[fixed.length - 1];
+    const previous = fixed[fixed.length - 2];
+    if (duration - last.start < MIN_CHAPTER_SECONDS) {
+      const shifted = Math.floor(duration - MIN_CHAPTER_SECONDS);
+      if (shifted - previous.start >= MIN_CHAPTER_SECONDS) {
+        fixed[fixed.length - 1] = { ...last, start: shifted };
+      } else {
+        fixed.pop();
+      }
+    }
+  }
+
+  return fixed;
+}
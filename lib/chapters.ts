@@ -0,0 +1,75 @@
+import { Chapter } from './types';
+import { formatTimestamp, parseTimestamp, timestampHoursMode } from './timestamps';
+
+// 行頭の箇条書き記号（-, *, •, ・ など）。「**00:00**」の強調記号とは区別する
+const BULLET_PATTERN = /^(?:[-*+]\s+|[•・●▪‣]\s*)/;
+// 行頭の番号（1. / 1) / (1) / ① など）
+const NUMBERING_PATTERN = /^(?:\d+[.)]\s+|\(\d+\)\s*|[①-⑳]\s*)/;
+// タイムスタンプ（M:SS / MM:SS / H:MM:SS）。[00:00] や **00:00** のような囲みも許容する
+const TIMESTAMP_PATTERN =
+  /^(?:\*\*|__)?[[(【]?\s*(\d{1,3}(?::\d{1,2}){1,2})\s*[\])】]?(?:\*\*|__)?/;
+// タイムスタンプとタイトルの間の区切り
+const SEPARATOR_PATTERN = /^\s*(?:[-–—:：|]\s*)?/;
+
+// 1行を解析してチャプターにする（タイムスタンプで始まらない行は null）
+export function parseChapterLine(line: string): Chapter | null {
+  let rest = line.trim().replace(BULLET_PATTERN, '').replace(NUMBERING_PATTERN, '');
+  const match = rest.match(TIMESTAMP_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const start = parseTimestamp(match[1]);
+  if (start === null) {
+    return null;
+  }
+
+  rest = rest.slice(match[0].length).replace(SEPARATOR_PATTERN, '');
+  // 見出しの強調記号や引用符は取り除く
+  const title = rest
+    .replace(/^(?:\*\*|__)(.*)(?:\*\*|__)$/, '$1')
+    .replace(/^["「『](.*)["」』]$/, '$1')
+    .trim();
+  return { start, title };
+}
+
+// GPT の応答などのテキストからチャプターを読み取る（タイムスタンプを含まない行は無視する）
+export function parseChapters(text: string): Chapter[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(parseChapterLine)
+    .filter((chapter): chapter is Chapter => chapter !== null);
+}
+
+export function formatChapterLine(chapter: Chapter, hours: 'auto' | 'always' = 'auto'): string {
+  return `${formatTimestamp(chapter.start, { hours })} ${chapter.title}`.trimEnd();
+}
+
+// YouTube の概要欄に貼り付ける「MM:SS タイトル」形式のテキストに変換する
+export function serializeChapters(chapters: Chapter[]): string {
+  // 1時間を超えるチャプターがある場合は、すべての行を H:MM:SS に揃える
+  const hours = timestampHoursMode(chapters.map((chapter) => chapter.start));
+  return chapters.map((chapter) => formatChapterLine(chapter, hours)).join('\n');
+}
+
+// 各チャプターの終了時刻（未指定の場合は次のチャプターの開始時刻、最後は動画の長さ）
+export function chapterEnd(chapters: Chapter[], index: number, duration?: number): number {
+  const chapter = chapters[index];
+  if (chapter.end !== undefined) {
+    return chapter.end;
+  }
+  const next = chapters[index + 1];
+  if (next) {
+    return next.start;
+  }
+  return duration !== undefined && duration > chapter.start ? duration : chapter.start;
+}
+
+// 書き出し用に、すべてのチャプターの開始・終了時刻を確定させる
+export function chapterRanges(chapters: Chapter[], duration?: number): Required<Chapter>[] {
+  return chapters.map((chapter, index) => ({
+    start: chapter.start,
+    end: chapterEnd(chapters, index, duration),
+    title: chapter.title,
+  }));
+}
@@ -0,0 +1,102 @@
+import { JobSummary, ProcessStatus } from './types';
+import { getJobSummaries } from './jobStore';
+
+export type JobStatusFilter = 'all' | 'active' | 'done' | 'error' | 'cancelled' | 'expired';
+
+export const JOB_STATUS_FILTERS: { value: JobStatusFilter; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  { value: 'active', label: '処理中' },
+  { value: 'done', label: '完了' },
+  { value: 'error', label: 'エラー' },
+  { value: 'cancelled', label: 'キャンセル' },
+  { value: 'expired', label: '期限切れ' },
+];
+
+const FILTER_STATUSES: Record<Exclude<JobStatusFilter, 'all'>, ProcessStatus[]> = {
+  active: ['waiting', 'processing', 'downloading', 'transcribing', 'generating'],
+  done: ['done'],
+  error: ['error'],
+  cancelled: ['cancelled'],
+  expired: ['expired'],
+};
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export interface JobHistoryQuery {
+  query?: string;
+  status?: JobStatusFilter;
+  page?: number;
+}
+
+export interface JobHistoryPage {
+  jobs: JobSummary[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+// 一覧に表示する動画・ファイルの名前
+export function describeJobSource(job: JobSummary): string {
+  const { source } = job;
+  if (job.title) {
+    return job.title;
+  }
+  switch (source?.type) {
+    case 'youtube':
+    case 'playlist':
+      return source.url;
+    case 'subtitle':
+    case 'media':
+      return source.fileName;
+    default:
+      return job.jobId;
+  }
+}
+
+// 過去のジョブを新しい順に検索・絞り込みしてページ単位で返す
+// プレイリストから展開した子ジョブは親ジョブの詳細に含まれるため一覧には出さない
+export async function listJobHistory({
+  query = '',
+  status = 'all',
+  page = 1,
+}: JobHistoryQuery): Promise<JobHistoryPage> {
+  const keywords = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const statuses = status === 'all' ? undefined : FILTER_STATUSES[status];
+  const requestedPage = Math.max(1, Math.floor(page) || 1);
+
+  const fetchPage = (target: number) =>
+    getJobSummaries({
+      statuses,
+      keywords,
+      offset: (target - 1) * HISTORY_PAGE_SIZE,
+      limit: HISTORY_PAGE_SIZE,
+    });
+
+  let result = await fetchPage(requestedPage);
+  const pageCount = Math.max(1, Math.ceil(result.total / HISTORY_PAGE_SIZE));
+  const currentPage = Math.min(requestedPage, pageCount);
+  // 最終ページより後を指定された場合は最終ページを取り直す
+  if (currentPage !== requestedPage) {
+    result = await fetchPage(currentPage);
+  }
+
+  return {
+    jobs: result.jobs,
+    total: result.total,
+    page: currentPage,
+    pageCount,
+  };
+}
+
+// 作成から完了までの処理時間（完了していないジョブは表示しない）
+export function formatJobDuration(job: JobSummary): string {
+  if (!job.completedAt) {
+    return '-';
+  }
+  const seconds = Math.max(
+    0,
+    Math.round((Date.parse(job.completedAt) - Date.parse(job.createdAt)) / 1000)
+  );
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}分${seconds % 60}秒` : `${seconds}秒`;
+}
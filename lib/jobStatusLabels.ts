@@ -0,0 +1,15 @@
+import { ProcessStatus } from './types';
+
+// 画面に表示するジョブの状態名
+export const STATUS_LABELS: Record<ProcessStatus, string> = {
+  idle: '未開始',
+  waiting: '待機中',
+  processing: '処理中',
+  downloading: 'ダウンロード中',
+  transcribing: '文字起こし中',
+  generating: '生成中',
+  done: '完了',
+  error: 'エラー',
+  cancelled: 'キャンセル',
+  expired: '期限切れ',
+};
@@ -1,24 +1,40 @@
-import { JobStatus, ProcessStatus } from './types';
+import { EventEmitter } from 'events';
+import {
+  FINISHED_STATUSES,
+  JobCheckpoints,
+  JobStatus,
+  ProcessStatus,
+  StageDurations,
+} from './types';
+import { createJobStorage, JobStorageAdapter, JobSummaryPage, JobSummaryQuery } from './storage';
+import { getRetentionPolicy, RetentionPolicy, retentionRules } from './retention';
+import { removeUploads } from './uploads';
 
 class JobStore {
-  private static instance: JobStore;
-  private jobs: Map<string, JobStatus>;
+  private storage: JobStorageAdapter;
+  private events = new EventEmitter();
+  private sweeper: ReturnType<typeof setInterval> | null = null;
 
-  private constructor() {
-    this.jobs = new Map();
+  private constructor(storage: JobStorageAdapter) {
+    this.storage = storage;
+    // SSE の接続ごとに購読するため、リスナー数の上限は設けない
+    this.events.setMaxListeners(0);
   }
 
+  // Next.js ではサーバーアクションと instrumentation が別々にバンドルされるため、
+  // インスタンスは globalThis で共有する
   public static getInstance(): JobStore {
-    if (!JobStore.instance) {
-      JobStore.instance = new JobStore();
+    const globalWithStore = globalThis as typeof globalThis & { jobStore?: JobStore };
+    if (!globalWithStore.jobStore) {
+      globalWithStore.jobStore = new JobStore(createJobStorage());
     }
-    return JobStore.instance;
+    return globalWithStore.jobStore;
   }
 
   // ジョブの状態を取得
   public async getJobStatus(jobId: string): Promise<JobStatus | null> {
     try {
-      const status = this.jobs.get(jobId);
+      const status = await this.storage.get(jobId);
       if (!status) {
         return null;
       }
@@ -28,46 +44,72 @@ class JobStore {
     }
   }
 
+  // プレイリストのジョブは子ジョブの状態もまとめて取得
+  public async getJobStatusWithChildren(
+    jobId: string
+  ): Promise<{ status: JobStatus; children?: JobStatus[] } | null> {
+    const status = await this.getJobStatus(jobId);
+    if (!status) {
+      return null;
+    }
+
+    const children = status.childJobIds
+      ? (
+          await Promise.all(status.childJobIds.map((childJobId) => this.getJobStatus(childJobId)))
+        ).filter((child): child is JobStatus => child !== null)
+      : undefined;
+    return { status, children };
+  }
+
   // ジョブの状態を更新
   public async updateJobStatus(jobId: string, status: Partial<JobStatus>) {
     try {
-      const currentStatus = this.jobs.get(jobId) || {
-        jobId,
-        status: 'waiting' as ProcessStatus,
-        progress: 0,
-        createdAt: new Date().toISOString(),
-      };
-
-      const updatedStatus: JobStatus = {
-        ...currentStatus,
-        ...status,
-        updatedAt: new Date().toISOString(),
-      };
-
-      this.jobs.set(jobId, updatedStatus);
+      const updatedStatus = await this.modify(jobId, (currentStatus) => {
+        // キャンセル後に実行中の処理から届いた更新で状態を戻さない（再投入は受け付ける）
+        if (currentStatus?.status === 'cancelled' && status.status !== 'waiting') {
+          return null;
+        }
+        return {
+          ...(currentStatus || {
+            jobId,
+            status: 'waiting' as ProcessStatus,
+            progress: 0,
+            createdAt: new Date().toISOString(),
+          }),
+          ...status,
+          updatedAt: new Date().toISOString(),
+        };
+      });
       return updatedStatus;
     } catch (error) {
       throw error;
     }
   }
 
-  // ジョブの結果を保存
-  public async storeJobResult(jobId: string, result: string) {
+  // ジョブの結果を保存（単体の動画ではチャプターと動画の長さも保存する）
+  public async storeJobResult(
+    jobId: string,
+    result: string,
+    details: Pick<JobStatus, 'chapters' | 'duration'> = {}
+  ) {
     try {
-      const status = this.jobs.get(jobId);
-      if (!status) {
-        throw new Error(`ジョブが見つかりません（結果保存）: ${jobId}`);
-      }
+      return await this.modify(jobId, (status) => {
+        if (!status) {
+          throw new Error(`ジョブが見つかりません（結果保存）: ${jobId}`);
+        }
+        if (status.status === 'cancelled') {
+          return null;
+        }
 
-      const updatedStatus: JobStatus = {
-        ...status,
-        status: 'done' as ProcessStatus,
-        progress: 100,
-        result,
-        completedAt: new Date().toISOString(),
-      };
-      this.jobs.set(jobId, updatedStatus);
-      return updatedStatus;
+        return {
+          ...status,
+          status: 'done' as ProcessStatus,
+          progress: 100,
+          result,
+          ...details,
+          completedAt: new Date().toISOString(),
+        };
+      });
     } catch (error) {
       throw error;
     }
@@ -76,27 +118,265 @@ class JobStore {
   // ジョブをエラー状態としてマーク
   public async markJobAsError(jobId: string, error: string) {
     try {
-      const status = this.jobs.get(jobId);
-      if (!status) {
-        throw new Error(`ジョブが見つかりません（エラー設定）: ${jobId}`);
-      }
+      return await this.modify(jobId, (status) => {
+        if (!status) {
+          throw new Error(`ジョブが見つかりません（エラー設定）: ${jobId}`);
+        }
+        if (status.status === 'cancelled') {
+          return null;
+        }
 
-      const updatedStatus: JobStatus = {
-        ...status,
-        status: 'error' as ProcessStatus,
-        error,
-        completedAt: new Date().toISOString(),
-      };
-      this.jobs.set(jobId, updatedStatus);
-      return updatedStatus;
+        return {
+          ...status,
+          status: 'error' as ProcessStatus,
+          error,
+          completedAt: new Date().toISOString(),
+        };
+      });
     } catch (error) {
       throw error;
     }
   }
 
+  // 段階ごとの出力を既存のチェックポイントに追加して保存
+  public async saveJobCheckpoint(jobId: string, checkpoint: Partial<JobCheckpoints>) {
+    return this.modify(jobId, (job) =>
+      job
+        ? {
+            ...job,
+            checkpoints: { ...job.checkpoints, ...checkpoint },
+            updatedAt: new Date().toISOString(),
+          }
+        : null
+    );
+  }
+
+  // 失敗・キャンセルしたジョブを再実行できる状態に戻す
+  // プレイリストの親ジョブは子ジョブの完了を待つため、status に processing を指定する
+  public async resetJobForRetry(
+    jobId: string,
+    status: ProcessStatus = 'waiting'
+  ): Promise<JobStatus | null> {
+    return this.modify(jobId, (job) =>
+      job && (job.status === 'error' || job.status === 'cancelled')
+        ? {
+            ...job,
+            status,
+            progress: 0,
+            error: undefined,
+            completedAt: undefined,
+            attempts: 0,
+            updatedAt: new Date().toISOString(),
+          }
+        : null
+    );
+  }
+
+  // 終了していないジョブをキャンセルする（プレイリストの場合は子ジョブもキャンセル）
+  // 実行中の処理はワーカーが状態の変化を検知して中断する
+  public async cancelJob(jobId: string): Promise<JobStatus | null> {
+    const cancelled = await this.modify(jobId, (job) =>
+      job && !FINISHED_STATUSES.includes(job.status)
+        ? {
+            ...job,
+            status: 'cancelled' as ProcessStatus,
+            updatedAt: new Date().toISOString(),
+            completedAt: new Date().toISOString(),
+          }
+        : null
+    );
+    if (cancelled?.childJobIds) {
+      await Promise.all(cancelled.childJobIds.map((childJobId) => this.cancelJob(childJobId)));
+    }
+    return cancelled;
+  }
+
+  // 待機中のジョブを1件取り出し、ワーカーの占有期限を設定して実行中にする
+  public async claimNextJob(workerId: string, leaseMs: number): Promise<JobStatus | null> {
+    const claimed = await this.storage.claimNext((job) => ({
+      ...job,
+      status: 'processing' as ProcessStatus,
+      leaseOwner: workerId,
+      leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString(),
+      attempts: (job.attempts ?? 0) + 1,
+      revision: (job.revision ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    }));
+    if (claimed) {
+      this.events.emit('change', claimed);
+    }
+    return claimed;
+  }
+
+  // ワーカーがまだジョブを保持している場合だけ占有期限を延長する
+  public async renewJobLease(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await this.modify(jobId, (job) =>
+      job && job.leaseOwner === workerId
+        ? { ...job, leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString() }
+        : null
+    );
+    return renewed !== null;
+  }
+
+  // ワーカーの処理が終わったジョブの占有を解除
+  public async releaseJobLease(jobId: string, workerId: string): Promise<void> {
+    await this.modify(jobId, (job) =>
+      job && job.leaseOwner === workerId
+        ? { ...job, leaseOwner: undefined, leaseExpiresAt: undefined }
+        : null
+    );
+  }
+
+  // 占有期限が切れたジョブ（ワーカーが停止した可能性が高い）を待機中に戻す
+  // 試行回数が上限に達したジョブはエラーにする
+  public async recoverExpiredJobs(maxAttempts: number): Promise<JobStatus[]> {
+    const now = new Date().toISOString();
+    const expiredJobs = await this.storage.listExpiredLeases(now);
+    const requeued: JobStatus[] = [];
+
+    for (const expiredJob of expiredJobs) {
+      const recovered = await this.modify(expiredJob.jobId, (job) => {
+        // 確認までの間に期限が延長されていれば何もしない
+        if (!job || !job.leaseExpiresAt || job.leaseExpiresAt >= now) {
+          return null;
+        }
+        const released = { ...job, leaseOwner: undefined, leaseExpiresAt: undefined };
+        if (FINISHED_STATUSES.includes(job.status)) {
+          return released;
+        }
+        if ((job.attempts ?? 0) >= maxAttempts) {
+          return {
+            ...released,
+            status: 'error' as ProcessStatus,
+            error: 'ワーカーが応答しなくなったため、処理を中断しました',
+            completedAt: now,
+          };
+        }
+        return { ...released, status: 'waiting' as ProcessStatus, progress: 0, updatedAt: now };
+      });
+      if (recovered?.status === 'waiting') {
+        requeued.push(recovered);
+      }
+    }
+    return requeued;
+  }
+
+  // 保存期間を過ぎたジョブの結果・文字起こし・アップロードファイルを削除し、期限切れにする
+  // 期限切れの記録も保存期間を過ぎたら削除する
+  public async expireJobs(policy: RetentionPolicy): Promise<{ expired: number; deleted: number }> {
+    const now = Date.now();
+    let expired = 0;
+    for (const rule of retentionRules(policy)) {
+      const completedBefore = new Date(now - rule.retentionMs).toISOString();
+      const candidates = await this.storage.listCompletedBefore(rule.statuses, completedBefore);
+      for (const candidate of candidates) {
+        const expiredJob = await this.modify(candidate.jobId, (job) =>
+          // 確認までの間に再試行された場合などは何もしない
+          job && rule.statuses.includes(job.status) && (job.completedAt ?? '') < completedBefore
+            ? {
+                jobId: job.jobId,
+                status: 'expired' as ProcessStatus,
+                progress: job.progress,
+                source: job.source,
+                settings: job.settings,
+                title: job.title,
+                parentJobId: job.parentJobId,
+                childJobIds: job.childJobIds,
+                language: job.language,
+                createdAt: job.createdAt,
+                updatedAt: new Date(now).toISOString(),
+                completedAt: job.completedAt,
+                expiredAt: new Date(now).toISOString(),
+              }
+            : null
+        );
+        if (expiredJob) {
+          await removeUploads(expiredJob.jobId);
+          expired++;
+        }
+      }
+    }
+
+    // 期限切れの記録は、期限切れになってから一定期間は履歴に残す
+    const tombstones = await this.storage.listExpiredBefore(
+      new Date(now - policy.expiredMs).toISOString()
+    );
+    await Promise.all(tombstones.map((job) => this.storage.delete(job.jobId)));
+    return { expired, deleted: tombstones.length };
+  }
+
+  // 保存期間の確認を定期的に行う（プロセスごとに1つだけ動かす）
+  public startSweeper(policy: RetentionPolicy) {
+    if (this.sweeper) {
+      return;
+    }
+    const sweep = () => {
+      this.expireJobs(policy).catch((error) => {
+        console.error('保存期間を過ぎたジョブの削除に失敗しました', error);
+      });
+    };
+    this.sweeper = setInterval(sweep, policy.sweepIntervalMs);
+    // 定期処理だけが残ってもプロセスを終了できるようにする
+    this.sweeper.unref?.();
+    sweep();
+  }
+
+  // ジョブと子ジョブ、アップロードファイルを削除する（利用者からの削除依頼に使う）
+  // 実行中のジョブは処理中の更新で再作成されないよう、キャンセルしてからでないと削除できない
+  public async deleteJob(jobId: string): Promise<boolean> {
+    const job = await this.storage.get(jobId);
+    if (!job) {
+      return false;
+    }
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      throw new Error('処理中のジョブは削除できません。キャンセルしてから削除してください');
+    }
+
+    const jobIds = [jobId, ...(job.childJobIds || [])];
+    await Promise.all(
+      jobIds.map(async (id) => {
+        await this.storage.delete(id);
+        await removeUploads(id);
+      })
+    );
+    return true;
+  }
+
+  // このプロセスで更新されたジョブを購読する（戻り値の関数で解除）
+  public subscribe(listener: (job: JobStatus) => void): () => void {
+    this.events.on('change', listener);
+    return () => {
+      this.events.off('change', listener);
+    };
+  }
+
+  // 更新のたびに revision を進め、購読者に通知する
+  private async modify(
+    jobId: string,
+    update: (job: JobStatus | null) => JobStatus | null
+  ): Promise<JobStatus | null> {
+    const updated = await this.storage.modify(jobId, (job) => {
+      const next = update(job);
+      return next ? { ...next, revision: (job?.revision ?? 0) + 1 } : null;
+    });
+    if (updated) {
+      this.events.emit('change', updated);
+    }
+    return updated;
+  }
+
   // 現在のジョブ一覧を取得
   public async getAllJobs(): Promise<JobStatus[]> {
-    return Array.from(this.jobs.values());
+    return this.storage.list();
+  }
+
+  public async getRecentStageDurations(limit: number): Promise<StageDurations[]> {
+    return this.storage.listRecentStageDurations(limit);
+  }
+
+  // 履歴の一覧用に、条件に一致するジョブの概要を取得
+  public async getJobSummaries(query: JobSummaryQuery): Promise<JobSummaryPage> {
+    return this.storage.listJobSummaries(query);
   }
 }
 
@@ -105,10 +385,33 @@ const jobStore = JobStore.getInstance();
 
 // 関数をエクスポート
 export const getJobStatus = (jobId: string) => jobStore.getJobStatus(jobId);
+export const getJobStatusWithChildren = (jobId: string) => jobStore.getJobStatusWithChildren(jobId);
 export const updateJobStatus = (jobId: string, status: Partial<JobStatus>) =>
   jobStore.updateJobStatus(jobId, status);
-export const storeJobResult = (jobId: string, result: string) =>
-  jobStore.storeJobResult(jobId, result);
+export const storeJobResult = (
+  jobId: string,
+  result: string,
+  details?: Pick<JobStatus, 'chapters' | 'duration'>
+) => jobStore.storeJobResult(jobId, result, details);
 export const markJobAsError = (jobId: string, error: string) =>
   jobStore.markJobAsError(jobId, error);
 export const getAllJobs = () => jobStore.getAllJobs();
+export const getRecentStageDurations = (limit: number) => jobStore.getRecentStageDurations(limit);
+export const getJobSummaries = (query: JobSummaryQuery) => jobStore.getJobSummaries(query);
+export const subscribeToJobChanges = (listener: (job: JobStatus) => void) =>
+  jobStore.subscribe(listener);
+export const cancelJob = (jobId: string) => jobStore.cancelJob(jobId);
+export const saveJobCheckpoint = (jobId: string, checkpoint: Partial<JobCheckpoints>) =>
+  jobStore.saveJobCheckpoint(jobId, checkpoint);
+export const resetJobForRetry = (jobId: string, status?: ProcessStatus) =>
+  jobStore.resetJobForRetry(jobId, status);
+export const claimNextJob = (workerId: string, leaseMs: number) =>
+  jobStore.claimNextJob(workerId, leaseMs);
+export const renewJobLease = (jobId: string, workerId: string, leaseMs: number) =>
+  jobStore.renewJobLease(jobId, workerId, leaseMs);
+export const releaseJobLease = (jobId: string, workerId: string) =>
+  jobStore.releaseJobLease(jobId, workerId);
+export const recoverExpiredJobs = (maxAttempts: number) => jobStore.recoverExpiredJobs(maxAttempts);
+export const expireJobs = () => jobStore.expireJobs(getRetentionPolicy());
+export const startJobSweeper = () => jobStore.startSweeper(getRetentionPolicy());
+export const deleteJob = (jobId: string) => jobStore.deleteJob(jobId);
@@ -0,0 +1,71 @@
+// 「en-US」「pt_BR」などの言語コードから基本の言語コードを取り出す
+export function toBaseLanguage(code: string): string {
+  return code.toLowerCase().split(/[-_]/)[0];
+}
+
+// ラテン文字の言語を見分けるための頻出語
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'you', 'that', 'it', 'this', 'to', 'of', 'what'],
+  es: ['el', 'la', 'que', 'de', 'y', 'es', 'en', 'los', 'por', 'una'],
+  fr: ['le', 'la', 'et', 'est', 'les', 'des', 'que', 'une', 'pas', 'vous'],
+  de: ['der', 'die', 'und', 'ist', 'das', 'nicht', 'ich', 'sie', 'mit', 'ein'],
+  pt: ['o', 'que', 'não', 'de', 'e', 'é', 'um', 'uma', 'para', 'você'],
+};
+
+// 文字起こしのテキストから言語を推定する（文字種と頻出語による簡易判定）
+export function detectLanguage(text: string): string {
+  const sample = text.slice(0, 5000);
+
+  const kana = (sample.match(/[\u3040-\u30ff]/g) || []).length;
+  const hangul = (sample.match(/[\uac00-\ud7af]/g) || []).length;
+  const han = (sample.match(/[\u4e00-\u9fff]/g) || []).length;
+  const latin = (sample.match(/[a-zA-Z\u00c0-\u024f]/g) || []).length;
+
+  if (kana > 0 && kana + han >= latin * 0.2) {
+    return 'ja';
+  }
+  if (hangul > han && hangul > latin * 0.2) {
+    return 'ko';
+  }
+  if (han > latin * 0.2) {
+    return 'zh';
+  }
+
+  const words = sample.toLowerCase().split(/[^a-z\u00c0-\u024f]+/);
+  let bestLanguage = 'en';
+  let bestScore = 0;
+  Object.keys(STOPWORDS).forEach((language) => {
+    const stopwords = STOPWORDS[language];
+    const score = words.filter((word) => stopwords.includes(word)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLanguage = language;
+    }
+  });
+  return bestLanguage;
+}
+
+// Whisper の verbose_json は言語を「japanese」のような名前で返すため、言語コードに変換する
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  japanese: 'ja',
+  english: 'en',
+  korean: 'ko',
+  chinese: 'zh',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  portuguese: 'pt',
+  italian: 'it',
+  russian: 'ru',
+};
+
+export function languageFromWhisper(name: string | undefined): string | undefined {
+  if (!name) {
+    return undefined;
+  }
+  const normalized = name.toLowerCase();
+  if (/^[a-z]{2}$/.test(normalized)) {
+    return normalized;
+  }
+  return WHISPER_LANGUAGE_NAMES[normalized];
+}
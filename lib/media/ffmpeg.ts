@@ -0,0 +1,276 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+// 同梱のffmpegバイナリを使用（FFMPEG_PATHで上書き可能）
+const FFMPEG_PATH = process.env.FFMPEG_PATH || ffmpegInstaller.path;
+ffmpeg.setFfmpegPath(FFMPEG_PATH);
+
+export interface MediaInfo {
+  duration: number;
+  hasAudio: boolean;
+  hasVideo: boolean;
+}
+
+export interface AudioChunk {
+  path: string;
+  offset: number;
+}
+
+// ffmpegを直接実行し、標準エラー出力（解析結果やログ）を返す
+// signal で中断された場合はプロセスを終了する
+function runFfmpeg(
+  args: string[],
+  signal?: AbortSignal
+): Promise<{ code: number | null; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', ...args], { signal });
+    let stderr = '';
+
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code, stderr }));
+  });
+}
+
+// メディアファイルの長さ（秒）と音声トラックの有無を取得
+// ffprobeは同梱されていないため、ffmpeg -i の出力から読み取る
+export async function probeMedia(inputPath: string, signal?: AbortSignal): Promise<MediaInfo> {
+  const { stderr } = await runFfmpeg(['-i', inputPath], signal);
+  const match = stderr.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) {
+    throw new Error('メディアファイルの長さを取得できませんでした');
+  }
+
+  return {
+    duration: parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]),
+    hasAudio: /Stream #.*: Audio:/.test(stderr),
+    // MP3のカバー画像（attached pic）は映像として扱わない
+    hasVideo: /Stream #.*: Video:(?!.*attached pic)/.test(stderr),
+  };
+}
+
+// fluent-ffmpeg のコマンドを実行し、signal で中断された場合はプロセスを終了する
+function runCommand(
+  command: ffmpeg.FfmpegCommand,
+  outputPath: string,
+  errorMessage: string,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const abort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', abort, { once: true });
+    command
+      .on('end', () => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      })
+      .on('error', (error) => {
+        signal?.removeEventListener('abort', abort);
+        reject(new Error(`${errorMessage}: ${error.message}`));
+      })
+      .save(outputPath);
+  });
+}
+
+// 音声認識向けにモノラル16kHzのMP3へ正規化
+export function normalizeAudio(
+  inputPath: string,
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  return runCommand(
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('libmp3lame')
+      .audioBitrate('64k'),
+    outputPath,
+    '音声の変換に失敗しました',
+    signal
+  );
+}
+
+// 音声を一定の長さごとに分割し、各チャンクの開始位置を返す
+export async function splitAudio(
+  inputPath: string,
+  outputDir: string,
+  chunkSeconds: number,
+  signal?: AbortSignal
+): Promise<AudioChunk[]> {
+  const listPath = path.join(outputDir, 'chunks.csv');
+
+  await runCommand(
+    ffmpeg(inputPath).outputOptions([
+      '-f segment',
+      `-segment_time ${chunkSeconds}`,
+      '-segment_list_type csv',
+      `-segment_list ${listPath}`,
+      '-reset_timestamps 1',
+      '-c copy',
+    ]),
+    path.join(outputDir, 'chunk_%03d.mp3'),
+    '音声の分割に失敗しました',
+    signal
+  );
+
+  // segment_list の各行は「ファイル名,開始秒,終了秒」
+  const list = await fs.readFile(listPath, 'utf-8');
+  return list
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [fileName, start] = line.split(',');
+      return {
+        path: path.join(outputDir, fileName),
+        offset: parseFloat(start) || 0,
+      };
+    });
+}
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+// silencedetect フィルタで一定時間以上続く無音区間を検出
+export async function detectSilences(
+  inputPath: string,
+  options: { noiseDb?: number; minDuration?: number; signal?: AbortSignal } = {}
+): Promise<SilenceInterval[]> {
+  const noiseDb = options.noiseDb ?? -35;
+  const minDuration = options.minDuration ?? 0.8;
+
+  const { code, stderr } = await runFfmpeg(
+    [
+      '-i',
+      inputPath,
+      '-vn',
+      '-af',
+      `silencedetect=noise=${noiseDb}dB:d=${minDuration}`,
+      '-f',
+      'null',
+      '-',
+    ],
+    options.signal
+  );
+  if (code !== 0) {
+    throw new Error('無音区間の検出に失敗しました');
+  }
+
+  const silences: SilenceInterval[] = [];
+  let silenceStart: number | null = null;
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      silenceStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+
+    const endMatch = line.match(/silence_end:\s*([\d.]+)\s*\|\s*silence_duration:\s*([\d.]+)/);
+    if (endMatch && silenceStart !== null) {
+      silences.push({
+        start: silenceStart,
+        end: parseFloat(endMatch[1]),
+        duration: parseFloat(endMatch[2]),
+      });
+      silenceStart = null;
+    }
+  }
+  return silences;
+}
+
+export interface SceneCut {
+  time: number;
+  score: number;
+}
+
+// scene フィルタで映像の切り替わり（スライドの変更、カット）を検出
+export async function detectSceneChanges(
+  inputPath: string,
+  options: { threshold?: number; signal?: AbortSignal } = {}
+): Promise<SceneCut[]> {
+  const threshold = options.threshold ?? 0.3;
+  const { code, stderr } = await runFfmpeg(
+    [
+      '-i',
+      inputPath,
+      '-an',
+      '-vf',
+      `scale=320:-2,select='gt(scene,${threshold})',metadata=print:key=lavfi.scene_score`,
+      '-f',
+      'null',
+      '-',
+    ],
+    options.signal
+  );
+  if (code !== 0) {
+    throw new Error('シーン切り替えの検出に失敗しました');
+  }
+
+  // metadata=print は「pts_time:X」の行の後に「lavfi.scene_score=Y」の行を出力する
+  const cuts: SceneCut[] = [];
+  let time: number | null = null;
+  for (const line of stderr.split('\n')) {
+    const timeMatch = line.match(/pts_time:\s*([\d.]+)/);
+    if (timeMatch) {
+      time = parseFloat(timeMatch[1]);
+      continue;
+    }
+
+    const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+    if (scoreMatch && time !== null) {
+      cuts.push({ time, score: parseFloat(scoreMatch[1]) });
+      time = null;
+    }
+  }
+  return cuts;
+}
+
+// FFMETADATA のチャプターをメディアファイルに書き込む（ストリームはコピーするだけで再エンコードしない）
+// 元のファイルのチャプターは置き換え、それ以外のメタデータはそのまま残す
+// MP4 の既存のチャプターはデータストリームとして読み込まれるため、データストリームはコピーしない
+export async function embedChapters(
+  inputPath: string,
+  metadataPath: string,
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const { code } = await runFfmpeg(
+    [
+      '-y',
+      '-i',
+      inputPath,
+      '-f',
+      'ffmetadata',
+      '-i',
+      metadataPath,
+      '-map',
+      '0',
+      '-map',
+      '-0:d',
+      '-map_metadata',
+      '0',
+      '-map_chapters',
+      '1',
+      '-c',
+      'copy',
+      outputPath,
+    ],
+    signal
+  );
+  if (code !== 0) {
+    throw new Error('チャプターの書き込みに失敗しました');
+  }
+}
@@ -0,0 +1,56 @@
+import { spawn } from 'child_process';
+import path from 'path';
+
+// yt-dlp で動画の音声トラックをダウンロードし、保存先のパスを返す
+// yt-dlp は同梱していないため、別途インストールするか YT_DLP_PATH で実行ファイルを指定する
+// signal で中断された場合は yt-dlp のプロセスを終了する
+export function downloadYouTubeAudio(
+  videoId: string,
+  outputDir: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const binary = process.env.YT_DLP_PATH || 'yt-dlp';
+  const args = [
+    '--no-playlist',
+    '--quiet',
+    '-f',
+    'bestaudio',
+    '-o',
+    path.join(outputDir, 'source.%(ext)s'),
+    '--print',
+    'after_move:filepath',
+    `https://www.youtube.com/watch?v=${videoId}`,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { signal });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    child.on('error', (error) => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(
+          new Error(
+            `yt-dlp がインストールされていません（${binary}）。字幕のない動画の音声を取得するには yt-dlp をインストールするか、YT_DLP_PATH に実行ファイルのパスを指定してください`
+          )
+        );
+        return;
+      }
+      reject(new Error(`音声のダウンロードに失敗しました: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      const filePath = stdout.trim().split('\n').pop();
+      if (code !== 0 || !filePath) {
+        reject(new Error(`音声のダウンロードに失敗しました: ${stderr.trim() || `exit ${code}`}`));
+        return;
+      }
+      resolve(filePath);
+    });
+  });
+}
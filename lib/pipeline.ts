@@ -0,0 +1,590 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import {
+  FINISHED_STATUSES,
+  JobCheckpoints,
+  JobSettings,
+  JobStatus,
+  PipelineStage,
+  Transcription,
+} from './types';
+import {
+  getJobStatus,
+  markJobAsError,
+  saveJobCheckpoint,
+  storeJobResult,
+  updateJobStatus,
+} from './jobStore';
+import { getTranscriptProvider, selectCaptionTrack, TranscriptNotFoundError } from './transcript';
+import { downloadYouTubeAudio } from './media/youtubeAudio';
+import { transcribeAudioFile } from './speechToText';
+import { parseSubtitles } from './subtitles';
+import { detectSceneChanges, detectSilences, probeMedia } from './media/ffmpeg';
+import { buildTopicGroups, candidatesFromSceneCuts, candidatesFromSilences } from './topicGroups';
+import { detectLanguage } from './languageDetection';
+import { buildChapterPrompt } from './chapterPrompts';
+import { parseChapters, serializeChapters } from './chapters';
+import { autoFixChapters, validateChapters } from './chapterRules';
+import { formatTimestamp, timestampHoursMode } from './timestamps';
+import { getPlaylistProvider } from './playlist';
+import { ProgressTracker, STAGE_PLANS } from './progress';
+
+let openai: OpenAI | null = null;
+
+// ワーカーはサーバー起動時に読み込まれるため、API キーが未設定でも起動できるよう最初の利用時に作成する
+function getOpenAIClient(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openai;
+}
+
+// チャプター1件あたりの出力トークン数の目安（生成中の進捗の見積もりに使う）
+const TOKENS_PER_CHAPTER = 15;
+
+// プレイリストから展開する動画の上限
+const PLAYLIST_MAX_VIDEOS = Number(process.env.PLAYLIST_MAX_VIDEOS) || 50;
+
+// ワーカーが取り出したジョブを入力の種類に応じて実行する
+// signal はジョブがキャンセルされたときに中断される
+export async function runJob(job: JobStatus, signal: AbortSignal): Promise<void> {
+  const { jobId, source } = job;
+  const settings: JobSettings = job.settings || { language: 'auto' };
+
+  try {
+    switch (source?.type) {
+      case 'youtube':
+        await processVideo(
+          job,
+          STAGE_PLANS.youtube,
+          (progress) =>
+            loadYouTubeTranscription(
+              source.videoId,
+              settings.language,
+              progress,
+              signal,
+              settings.autoGenerated
+            ),
+          signal
+        );
+        break;
+      case 'subtitle':
+        await processVideo(
+          job,
+          STAGE_PLANS.subtitle,
+          (progress) =>
+            loadSubtitleTranscription(
+              source.filePath,
+              source.fileName,
+              settings.language,
+              progress
+            ),
+          signal
+        );
+        break;
+      case 'media':
+        await processVideo(
+          job,
+          STAGE_PLANS.media,
+          (progress) => transcribeMediaFile(source.mediaPath, settings.language, progress, signal),
+          signal
+        );
+        break;
+      case 'playlist':
+        await expandPlaylist(job, source.playlistId, signal);
+        break;
+      default:
+        throw new Error('ジョブの入力内容が見つかりません');
+    }
+  } catch (error) {
+    // キャンセルによる中断はエラーとして記録しない
+    if (!signal.aborted) {
+      await markJobAsError(
+        jobId,
+        error instanceof Error ? error.message : '処理中にエラーが発生しました'
+      );
+    }
+  } finally {
+    if (job.parentJobId) {
+      await updatePlaylistProgress(job.parentJobId);
+    }
+  }
+}
+
+// コールバックから保存する進捗の失敗はログに残すだけにし、処理は続ける
+function logProgressError(error: unknown) {
+  console.error('進捗を保存できませんでした', error);
+}
+
+export function generateJobId(): string {
+  return `job-${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// 段階ごとの出力をチェックポイントとして保存し、再試行時は保存済みの段階を飛ばす
+async function processVideo(
+  job: JobStatus,
+  plan: PipelineStage[],
+  loadTranscription: (progress: ProgressTracker) => Promise<Transcription>,
+  signal: AbortSignal
+): Promise<void> {
+  const { jobId } = job;
+  const checkpoints = job.checkpoints || {};
+  const progress = await ProgressTracker.create(
+    job,
+    checkpoints.transcription ? STAGE_PLANS.resumed : plan
+  );
+
+  let transcription = checkpoints.transcription;
+  if (!transcription) {
+    transcription = await loadTranscription(progress);
+    await saveJobCheckpoint(jobId, { transcription });
+  }
+  signal.throwIfAborted();
+
+  const language = transcription.language || detectLanguage(transcription.text);
+  await updateJobStatus(jobId, { language });
+
+  const response =
+    checkpoints.llmResponse ??
+    (await generateChapters(transcription, language, checkpoints, progress, signal));
+
+  await progress.startStage('validate', '生成されたチャプターを確認しています');
+  const duration =
+    transcription.duration ?? transcription.segments[transcription.segments.length - 1]?.end;
+  let chapters = parseChapters(response);
+  // GPT の出力は YouTube の条件を満たさないことが多いため、違反があれば自動で修正する
+  if (validateChapters(chapters, { duration }).length > 0) {
+    chapters = autoFixChapters(chapters, duration);
+  }
+  if (chapters.length === 0) {
+    // 再試行で同じ応答を使い回さないよう、生成からやり直させる
+    await saveJobCheckpoint(jobId, { llmResponse: undefined });
+    throw new Error('生成結果からチャプターを読み取れませんでした');
+  }
+  // 修正しても条件を満たさない場合（チャプターが3件未満など）は完了にせず、再試行で生成からやり直させる
+  const remaining = validateChapters(chapters, { duration });
+  if (remaining.length > 0) {
+    await saveJobCheckpoint(jobId, { llmResponse: undefined });
+    throw new Error(
+      `生成されたチャプターが YouTube の条件を満たしていません: ${remaining
+        .map((issue) => issue.message)
+        .join(' / ')}`
+    );
+  }
+
+  await progress.finish();
+  await storeJobResult(jobId, serializeChapters(chapters), { chapters, duration });
+}
+
+async function loadSubtitleTranscription(
+  filePath: string,
+  fileName: string,
+  language: string,
+  progress: ProgressTracker
+): Promise<Transcription> {
+  await progress.startStage('fetchTranscript', '字幕ファイルを読み込んでいます');
+  const segments = parseSubtitles(await fs.readFile(filePath, 'utf8'), fileName);
+  if (segments.length === 0) {
+    throw new Error('字幕ファイルから有効なセグメントを読み取れませんでした');
+  }
+
+  return {
+    text: segments.map((segment) => segment.text).join(' '),
+    segments,
+    language: language && language !== 'auto' ? language : undefined,
+  };
+}
+
+// プレイリストを動画ごとの子ジョブとしてキューに追加する
+// 親ジョブは子ジョブがすべて終わった時点で結果をまとめて完了にする
+async function expandPlaylist(job: JobStatus, playlistId: string, signal: AbortSignal) {
+  // 展開後にワーカーが停止して再実行された場合は、記録済みの動画の一覧から足りない子ジョブだけを作成する
+  let parent = job;
+  if (!job.childJobIds) {
+    await updateJobStatus(job.jobId, { step: 'プレイリストの動画を取得しています' });
+    const videos = await getPlaylistProvider().listVideos(playlistId, PLAYLIST_MAX_VIDEOS, signal);
+    if (videos.length === 0) {
+      throw new Error('プレイリストに処理できる動画がありません');
+    }
+
+    // 子ジョブが先に終わっても親ジョブから辿れるよう、動画の一覧とIDを1回の書き込みで先に記録しておく
+    const updated = await updateJobStatus(job.jobId, {
+      childJobIds: videos.map(() => generateJobId()),
+      checkpoints: { ...job.checkpoints, playlistVideos: videos },
+    });
+    if (!updated) {
+      throw new Error('ジョブが見つかりません');
+    }
+    parent = updated;
+  }
+
+  await createMissingChildJobs(parent, signal);
+  await updatePlaylistProgress(job.jobId);
+}
+
+// 親ジョブに記録した動画のうち、子ジョブがまだ作成されていないものを待機中として追加する
+export async function createMissingChildJobs(parent: JobStatus, signal?: AbortSignal) {
+  const childJobIds = parent.childJobIds || [];
+  const videos = parent.checkpoints?.playlistVideos || [];
+
+  for (let i = 0; i < childJobIds.length && i < videos.length; i++) {
+    // キャンセル後に子ジョブが追加されないようにする
+    signal?.throwIfAborted();
+    if (await getJobStatus(childJobIds[i])) {
+      continue;
+    }
+    const video = videos[i];
+    await updateJobStatus(childJobIds[i], {
+      jobId: childJobIds[i],
+      status: 'waiting',
+      progress: 0,
+      source: {
+        type: 'youtube',
+        url: `https://www.youtube.com/watch?v=${video.videoId}`,
+        videoId: video.videoId,
+      },
+      settings: { language: parent.settings?.language || 'auto' },
+      title: video.title,
+      parentJobId: parent.jobId,
+      createdAt: new Date().toISOString(),
+    });
+  }
+}
+
+// 子ジョブの進み具合を親ジョブに反映し、すべて終わっていれば結果をまとめる
+export async function updatePlaylistProgress(jobId: string) {
+  const parent = await getJobStatus(jobId);
+  if (!parent || !parent.childJobIds || FINISHED_STATUSES.includes(parent.status)) {
+    return;
+  }
+
+  const children = (
+    await Promise.all(parent.childJobIds.map((childJobId) => getJobStatus(childJobId)))
+  ).filter((child): child is JobStatus => child !== null);
+  const finished = children.filter((child) => FINISHED_STATUSES.includes(child.status));
+
+  if (finished.length < parent.childJobIds.length) {
+    await updateJobStatus(jobId, {
+      progress: Math.round((95 * finished.length) / parent.childJobIds.length),
+      step: `${finished.length} / ${parent.childJobIds.length} 本の動画を処理しました`,
+    });
+    return;
+  }
+
+  if (!children.some((child) => child.status === 'done')) {
+    await markJobAsError(jobId, 'プレイリスト内のすべての動画で処理に失敗しました');
+    return;
+  }
+  await storeJobResult(jobId, combinePlaylistResults(children));
+}
+
+// 子ジョブの結果を動画ごとの見出し付きで1つのテキストにまとめる
+function combinePlaylistResults(children: JobStatus[]): string {
+  return children
+    .map((child) => {
+      const source = child.source?.type === 'youtube' ? child.source : null;
+      const heading = [
+        child.title || child.jobId,
+        source ? `https://youtu.be/${source.videoId}` : '',
+      ]
+        .filter((line) => line.length > 0)
+        .join('\n');
+      const body =
+        child.status === 'done' && child.result
+          ? child.result.trim()
+          : child.status === 'cancelled'
+            ? '（キャンセルされました）'
+            : `（処理に失敗しました: ${child.error || '不明なエラー'}）`;
+      return `${heading}\n${body}`;
+    })
+    .join('\n\n');
+}
+
+async function loadYouTubeTranscription(
+  videoId: string,
+  language: string,
+  progress: ProgressTracker,
+  signal: AbortSignal,
+  autoGenerated?: boolean
+): Promise<Transcription> {
+  try {
+    return await getYouTubeTranscript(videoId, language, progress, signal, autoGenerated);
+  } catch (error) {
+    // 字幕がない動画は音声から文字起こしする
+    if (!(error instanceof TranscriptNotFoundError)) {
+      throw error;
+    }
+    progress.setPlan(STAGE_PLANS.youtubeAudio);
+    return transcribeYouTubeAudio(videoId, language, progress, signal);
+  }
+}
+
+async function getYouTubeTranscript(
+  videoId: string,
+  language: string,
+  progress: ProgressTracker,
+  signal: AbortSignal,
+  autoGenerated?: boolean
+): Promise<Transcription> {
+  try {
+    const provider = getTranscriptProvider();
+
+    // 字幕トラックの一覧が取得できない場合は指定言語（自動検出なら日本語）で取得を試みる
+    await progress.startStage('resolve', '動画の字幕トラックを確認しています');
+    // キャンセルされた場合は一覧なしで続けずに中断する
+    const tracks = await provider.listTracks(videoId, signal).catch((error) => {
+      if (signal.aborted) {
+        throw error;
+      }
+      return [];
+    });
+    // 種類を区別できないプロバイダーでは言語だけでトラックを選ぶ
+    const requestedKind = provider.supportsTrackKind ? autoGenerated : undefined;
+    const track =
+      tracks.length > 0
+        ? selectCaptionTrack(tracks, language, requestedKind)
+        : {
+            language: language === 'auto' ? 'ja' : language,
+            name: '',
+            isAutoGenerated: !!requestedKind,
+          };
+
+    if (!track) {
+      throw new TranscriptNotFoundError(videoId, language);
+    }
+
+    await progress.startStage(
+      'fetchTranscript',
+      `字幕を取得しています（${track.language}${
+        provider.supportsTrackKind && track.isAutoGenerated ? '・自動生成' : ''
+      }）`
+    );
+    const segments = await provider.fetchTranscript(videoId, track.language, {
+      autoGenerated: track.isAutoGenerated,
+      signal,
+    });
+
+    if (segments.length === 0) {
+      throw new TranscriptNotFoundError(videoId, track.language);
+    }
+
+    const text = segments.map((item) => item.text).join(' ');
+    return {
+      text,
+      segments,
+      // トラック一覧がなく言語が確定していない場合は本文から判定する
+      language: tracks.length > 0 || language !== 'auto' ? track.language : detectLanguage(text),
+    };
+  } catch (error) {
+    if (error instanceof TranscriptNotFoundError) {
+      throw error;
+    }
+    throw new Error(
+      `字幕の取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  }
+}
+
+async function transcribeYouTubeAudio(
+  videoId: string,
+  language: string,
+  progress: ProgressTracker,
+  signal: AbortSignal
+): Promise<Transcription> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'yt-chapter-audio-'));
+  try {
+    await progress.startStage('download', '字幕がないため、動画の音声をダウンロードしています');
+    const audioPath = await downloadYouTubeAudio(videoId, workDir, signal);
+
+    await progress.startStage('transcribe', '音声を文字起こししています');
+    const transcription = await transcribeAudioFile(audioPath, {
+      language,
+      onProgress: (completed, total) => {
+        progress
+          .report(completed / total, `音声を文字起こししています（${completed} / ${total}）`)
+          .catch(logProgressError);
+      },
+      signal,
+    });
+
+    signal.throwIfAborted();
+    await progress.startStage('analyze', '話の区切りになる無音区間を検出しています');
+    const silences = await detectSilences(audioPath, { signal });
+
+    return {
+      ...transcription,
+      boundaryCandidates: candidatesFromSilences(silences),
+    };
+  } catch (error) {
+    throw new Error(
+      `音声の文字起こしに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function transcribeMediaFile(
+  mediaPath: string,
+  language: string,
+  progress: ProgressTracker,
+  signal: AbortSignal
+): Promise<Transcription> {
+  try {
+    await progress.startStage('resolve', 'メディアファイルを確認しています');
+    const media = await probeMedia(mediaPath, signal);
+
+    await progress.startStage('transcribe', '音声を文字起こししています');
+    const transcription = await transcribeAudioFile(mediaPath, {
+      language,
+      onProgress: (completed, total) => {
+        progress
+          .report(completed / total, `音声を文字起こししています（${completed} / ${total}）`)
+          .catch(logProgressError);
+      },
+      signal,
+    });
+
+    signal.throwIfAborted();
+    await progress.startStage(
+      'analyze',
+      media.hasVideo
+        ? '無音区間とシーンの切り替えを検出しています'
+        : '話の区切りになる無音区間を検出しています'
+    );
+    const silences = await detectSilences(mediaPath, { signal });
+    const sceneCuts = media.hasVideo ? await detectSceneChanges(mediaPath, { signal }) : [];
+
+    await updateJobStatus(progress.jobId, {
+      sceneCuts: sceneCuts.map((cut) => cut.time),
+    });
+    return {
+      ...transcription,
+      duration: media.duration,
+      boundaryCandidates: [
+        ...candidatesFromSilences(silences),
+        ...candidatesFromSceneCuts(sceneCuts),
+      ],
+    };
+  } catch (error) {
+    throw new Error(
+      `音声の文字起こしに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  }
+}
+
+function determineChapterCount(durationInSeconds: number): { min: number; max: number } {
+  const durationInMinutes = durationInSeconds / 60;
+
+  if (durationInMinutes <= 15) {
+    return { min: 3, max: 5 };
+  } else if (durationInMinutes <= 30) {
+    return { min: 5, max: 8 };
+  } else if (durationInMinutes <= 60) {
+    return { min: 8, max: 12 };
+  } else if (durationInMinutes <= 120) {
+    return { min: 12, max: 20 };
+  } else {
+    return { min: 15, max: 30 };
+  }
+}
+
+async function generateChapters(
+  transcription: Transcription,
+  language: string,
+  checkpoints: JobCheckpoints,
+  progress: ProgressTracker,
+  signal: AbortSignal
+): Promise<string> {
+  const { jobId } = progress;
+  try {
+    if (!transcription || typeof transcription !== 'object') {
+      throw new Error('無効なトランスクリプションデータです');
+    }
+
+    const segments = transcription.segments || [];
+
+    if (!Array.isArray(segments) || segments.length === 0) {
+      throw new Error('トランスクリプションに有効なセグメントデータが含まれていません');
+    }
+
+    const totalDuration = Math.ceil(transcription.duration ?? segments[segments.length - 1].end);
+    const { min: minChapters, max: maxChapters } = determineChapterCount(totalDuration);
+
+    await progress.startStage('group', '字幕を話題ごとにまとめています');
+    let topicGroups = checkpoints.topicGroups;
+    if (!topicGroups) {
+      topicGroups = buildTopicGroups(segments, maxChapters, {
+        candidates: transcription.boundaryCandidates,
+        language,
+      });
+      await saveJobCheckpoint(jobId, { topicGroups });
+    }
+
+    // 1時間を超える動画では YouTube が認識できるよう、すべての時刻を H:MM:SS で示す
+    const hours = timestampHoursMode([totalDuration]);
+    const formattedSegments = topicGroups
+      .map((group, index) => {
+        const summary = group.texts.join(' ').slice(0, 100) + '...';
+        const startTime = Math.round(group.start * 100) / 100;
+        return `${formatTimestamp(startTime, { hours })} ${summary}`;
+      })
+      .join('\n');
+
+    const prompt = buildChapterPrompt({
+      language,
+      minChapters,
+      maxChapters,
+      totalDuration: formatTimestamp(totalDuration, { hours }),
+      timestampFormat: hours === 'always' ? 'H:MM:SS' : 'MM:SS',
+      formattedSegments,
+    });
+
+    await progress.startStage('generate', 'GPT-4 でチャプターを生成しています');
+    const stream = await getOpenAIClient().chat.completions.create(
+      {
+        model: 'gpt-4',
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user },
+        ],
+        temperature: 0.7,
+        max_tokens: 500,
+        stream: true,
+      },
+      { signal }
+    );
+
+    // 受け取ったトークン数を想定されるチャプター数分の長さと比べて進捗とする
+    const expectedTokens = ((minChapters + maxChapters) / 2) * TOKENS_PER_CHAPTER;
+    let result = '';
+    let receivedTokens = 0;
+    for await (const chunk of stream) {
+      result += chunk.choices[0]?.delta?.content || '';
+      receivedTokens++;
+      const lines = result.split('\n').filter((line) => line.trim().length > 0).length;
+      // 進捗の保存を待つとストリームの受信が遅れるため、完了を待たずに次のトークンを読む
+      progress
+        .report(
+          Math.min(0.95, receivedTokens / expectedTokens),
+          `GPT-4 でチャプターを生成しています（${lines} 件）`
+        )
+        .catch(logProgressError);
+    }
+
+    if (!result) {
+      throw new Error('GPT-4からの応答が空でした');
+    }
+    await saveJobCheckpoint(jobId, { llmResponse: result });
+
+    return result;
+  } catch (error) {
+    throw new Error(
+      `チャプターの生成に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    );
+  }
+}
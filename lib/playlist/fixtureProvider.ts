@@ -0,0 +1,24 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlaylistProvider, PlaylistVideo } from './types';
+
+// ローカルのJSONファイル（<dir>/<playlistId>.json）から動画一覧を返すオフライン用の実装
+export class FixturePlaylistProvider implements PlaylistProvider {
+  public readonly name = 'fixture';
+
+  constructor(private readonly directory: string) {}
+
+  public async listVideos(playlistId: string, limit: number): Promise<PlaylistVideo[]> {
+    const filePath = path.join(this.directory, `${path.basename(playlistId)}.json`);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const fixture: { videos: PlaylistVideo[] } = JSON.parse(content);
+      return (fixture.videos || []).slice(0, limit);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
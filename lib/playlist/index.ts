@@ -0,0 +1,30 @@
+import path from 'path';
+import { PlaylistProvider } from './types';
+import { YouTubeDataApiPlaylistProvider } from './youtubeDataApiProvider';
+import { FixturePlaylistProvider } from './fixtureProvider';
+
+export type { PlaylistProvider, PlaylistVideo } from './types';
+
+// PLAYLIST_PROVIDER の値と実装の対応
+const providerFactories: Record<string, () => PlaylistProvider> = {
+  youtube: () => new YouTubeDataApiPlaylistProvider(process.env.YOUTUBE_API_KEY),
+  fixture: () =>
+    new FixturePlaylistProvider(
+      process.env.PLAYLIST_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'playlists')
+    ),
+};
+
+let provider: PlaylistProvider | null = null;
+
+// 設定に応じたプレイリストプロバイダーを取得
+export function getPlaylistProvider(): PlaylistProvider {
+  if (!provider) {
+    const name = process.env.PLAYLIST_PROVIDER || 'youtube';
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`未対応のプレイリストプロバイダーです: ${name}`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
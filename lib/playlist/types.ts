@@ -0,0 +1,12 @@
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+}
+
+// プレイリストの展開元ごとの実装が満たすインターフェース
+export interface PlaylistProvider {
+  readonly name: string;
+
+  // プレイリストに含まれる動画を先頭から最大 limit 件取得
+  listVideos(playlistId: string, limit: number, signal?: AbortSignal): Promise<PlaylistVideo[]>;
+}
@@ -0,0 +1,52 @@
+import axios from 'axios';
+import { PlaylistProvider, PlaylistVideo } from './types';
+
+const PLAYLIST_ITEMS_URL = 'https://www.googleapis.com/youtube/v3/playlistItems';
+const PAGE_SIZE = 50;
+// 1 ページの取得が応答しない場合に打ち切るまでの時間
+const REQUEST_TIMEOUT_MS = 15000;
+
+// YouTube Data API v3 の playlistItems を使ったプレイリストの展開
+export class YouTubeDataApiPlaylistProvider implements PlaylistProvider {
+  public readonly name = 'youtube';
+
+  constructor(private readonly apiKey: string | undefined) {}
+
+  public async listVideos(
+    playlistId: string,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<PlaylistVideo[]> {
+    if (!this.apiKey) {
+      throw new Error('YOUTUBE_API_KEY が設定されていません');
+    }
+
+    const videos: PlaylistVideo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await axios.get(PLAYLIST_ITEMS_URL, {
+        params: {
+          part: 'snippet',
+          playlistId,
+          maxResults: PAGE_SIZE,
+          pageToken,
+          key: this.apiKey,
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+      });
+
+      for (const item of response.data.items || []) {
+        const videoId = item.snippet?.resourceId?.videoId;
+        // 削除済み・非公開の動画はタイトルが置き換えられているため除外する
+        if (videoId && !['Deleted video', 'Private video'].includes(item.snippet.title)) {
+          videos.push({ videoId, title: item.snippet.title });
+        }
+      }
+      pageToken = response.data.nextPageToken;
+    } while (pageToken && videos.length < limit);
+
+    return videos.slice(0, limit);
+  }
+}
@@ -0,0 +1,198 @@
+import { JobStatus, PipelineStage, ProcessStatus, StageDurations } from './types';
+import { getRecentStageDurations, updateJobStatus } from './jobStore';
+
+// 段階ごとの重み（進捗率はジョブで実行する段階の重みの合計に対する割合）
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+  resolve: 3,
+  fetchTranscript: 7,
+  download: 10,
+  transcribe: 40,
+  analyze: 5,
+  group: 3,
+  generate: 30,
+  validate: 2,
+};
+
+// 画面に表示する大まかな状態
+const STAGE_STATUSES: Record<PipelineStage, ProcessStatus> = {
+  resolve: 'processing',
+  fetchTranscript: 'processing',
+  download: 'downloading',
+  transcribe: 'transcribing',
+  analyze: 'transcribing',
+  group: 'generating',
+  generate: 'generating',
+  validate: 'generating',
+};
+
+// 入力の種類ごとに実行する段階の並び
+export const STAGE_PLANS: Record<string, PipelineStage[]> = {
+  youtube: ['resolve', 'fetchTranscript', 'group', 'generate', 'validate'],
+  // 字幕がなく音声から文字起こしする場合
+  youtubeAudio: [
+    'resolve',
+    'fetchTranscript',
+    'download',
+    'transcribe',
+    'analyze',
+    'group',
+    'generate',
+    'validate',
+  ],
+  subtitle: ['fetchTranscript', 'group', 'generate', 'validate'],
+  media: ['resolve', 'transcribe', 'analyze', 'group', 'generate', 'validate'],
+  // 文字起こしのチェックポイントから再開する場合
+  resumed: ['group', 'generate', 'validate'],
+};
+
+// 残り時間の見積もりに使う直近の完了ジョブの数
+const HISTORY_SIZE = 20;
+// 段階内の進捗を保存する最短の間隔（ミリ秒）
+const REPORT_INTERVAL_MS = 500;
+// 段階内の進捗がこれ未満のときは、経過時間からの見積もりを使わない
+const MIN_FRACTION_FOR_ESTIMATE = 0.05;
+
+// 直近の完了ジョブから段階ごとの平均所要時間（ミリ秒）を求める
+async function loadStageHistory(): Promise<StageDurations> {
+  const history = await getRecentStageDurations(HISTORY_SIZE);
+
+  const totals: Partial<Record<PipelineStage, { sum: number; count: number }>> = {};
+  history.forEach((durations) => {
+    Object.entries(durations).forEach(([stage, duration]) => {
+      const total = totals[stage as PipelineStage] || { sum: 0, count: 0 };
+      total.sum += duration;
+      total.count += 1;
+      totals[stage as PipelineStage] = total;
+    });
+  });
+
+  const averages: StageDurations = {};
+  Object.entries(totals).forEach(([stage, total]) => {
+    averages[stage as PipelineStage] = total.sum / total.count;
+  });
+  return averages;
+}
+
+// ジョブの段階と段階内の進み具合から進捗率・表示メッセージ・完了予定時刻を更新する
+export class ProgressTracker {
+  private plan: PipelineStage[];
+  private history: StageDurations;
+  private current: PipelineStage | null = null;
+  private stageStartedAt = 0;
+  private lastReportAt = 0;
+  private progress = 0;
+  private step = '';
+  private durations: StageDurations = {};
+
+  private constructor(
+    public readonly jobId: string,
+    plan: PipelineStage[],
+    history: StageDurations
+  ) {
+    this.plan = plan;
+    this.history = history;
+  }
+
+  public static async create(job: JobStatus, plan: PipelineStage[]): Promise<ProgressTracker> {
+    const history = await loadStageHistory().catch(() => ({}));
+    return new ProgressTracker(job.jobId, plan, history);
+  }
+
+  // 実行する段階の並びを変更する（字幕がなく音声認識に切り替えた場合など）
+  public setPlan(plan: PipelineStage[]) {
+    this.plan = plan;
+  }
+
+  public async startStage(stage: PipelineStage, step: string) {
+    this.finishCurrentStage();
+    this.current = stage;
+    this.stageStartedAt = Date.now();
+    await this.save(0, step, STAGE_STATUSES[stage]);
+  }
+
+  // 段階内の進み具合（0〜1）を報告する。頻繁な報告は間引いて保存する
+  public async report(fraction: number, step?: string) {
+    if (fraction < 1 && Date.now() - this.lastReportAt < REPORT_INTERVAL_MS) {
+      return;
+    }
+    await this.save(fraction, step);
+  }
+
+  // すべての段階を終えたときに所要時間を記録する（次回以降の見積もりに使われる）
+  public async finish() {
+    this.finishCurrentStage();
+    this.current = null;
+    await updateJobStatus(this.jobId, {
+      stageDurations: this.durations,
+      estimatedCompletionAt: undefined,
+    });
+  }
+
+  private finishCurrentStage() {
+    if (this.current) {
+      this.durations[this.current] =
+        (this.durations[this.current] ?? 0) + (Date.now() - this.stageStartedAt);
+    }
+  }
+
+  private async save(fraction: number, step?: string, status?: ProcessStatus) {
+    const clamped = Math.min(1, Math.max(0, fraction));
+    this.lastReportAt = Date.now();
+    this.step = step ?? this.step;
+    // 段階の並びが変わっても進捗率が戻らないようにする（100% は結果の保存時に設定される）
+    this.progress = Math.max(this.progress, Math.min(99, this.calculateProgress(clamped)));
+
+    await updateJobStatus(this.jobId, {
+      ...(status ? { status } : {}),
+      progress: this.progress,
+      step: this.step,
+      stage: this.current ?? undefined,
+      stageDurations: this.durations,
+      estimatedCompletionAt: this.estimateCompletion(clamped),
+    });
+  }
+
+  private calculateProgress(fraction: number): number {
+    const totalWeight = this.plan.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+    const index = this.current ? this.plan.indexOf(this.current) : -1;
+    if (totalWeight === 0 || index < 0) {
+      return this.progress;
+    }
+    const completedWeight = this.plan
+      .slice(0, index)
+      .reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+    return Math.round(
+      (100 * (completedWeight + STAGE_WEIGHTS[this.plan[index]] * fraction)) / totalWeight
+    );
+  }
+
+  // 現在の段階の残り時間（進み具合または過去の平均から）と、残りの段階の平均所要時間を合計する
+  // 過去の実績がない段階が残っている場合は見積もらない
+  private estimateCompletion(fraction: number): string | undefined {
+    if (!this.current) {
+      return undefined;
+    }
+    const now = Date.now();
+    const elapsed = now - this.stageStartedAt;
+    const expected = this.history[this.current];
+
+    let remaining: number;
+    if (fraction >= MIN_FRACTION_FOR_ESTIMATE) {
+      remaining = (elapsed * (1 - fraction)) / fraction;
+    } else if (expected !== undefined) {
+      remaining = Math.max(0, expected - elapsed);
+    } else {
+      return undefined;
+    }
+
+    const upcoming = this.plan.slice(this.plan.indexOf(this.current) + 1);
+    for (const stage of upcoming) {
+      const average = this.history[stage];
+      if (average === undefined) {
+        return undefined;
+      }
+      remaining += average;
+    }
+    return new Date(now + remaining).toISOString();
+  }
+}
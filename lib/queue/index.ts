@@ -0,0 +1,70 @@
+import { JobStatus } from '../types';
+import { getJobStatus, resetJobForRetry, updateJobStatus } from '../jobStore';
+import { createMissingChildJobs, updatePlaylistProgress } from '../pipeline';
+import { JobWorker } from './worker';
+
+export { JobWorker } from './worker';
+export type { JobWorkerOptions } from './worker';
+
+// inline: Next.js のサーバープロセス内でワーカーを動かす
+// external: npm run worker で起動した別プロセスのワーカーに任せる
+const WORKER_MODE = process.env.JOB_WORKER_MODE || 'inline';
+
+export function createJobWorker(): JobWorker {
+  return new JobWorker({
+    concurrency: Number(process.env.JOB_WORKER_CONCURRENCY) || 2,
+    leaseMs: (Number(process.env.JOB_LEASE_SECONDS) || 60) * 1000,
+    pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS) || 1000,
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || 3,
+  });
+}
+
+// プロセス内のワーカーを起動する（バンドル間で1つだけになるよう globalThis で共有）
+export function startInlineWorker(): JobWorker | null {
+  if (WORKER_MODE !== 'inline') {
+    return null;
+  }
+  const globalWithWorker = globalThis as typeof globalThis & { jobWorker?: JobWorker };
+  if (!globalWithWorker.jobWorker) {
+    globalWithWorker.jobWorker = createJobWorker();
+    globalWithWorker.jobWorker.start();
+  }
+  return globalWithWorker.jobWorker;
+}
+
+// ジョブを待機中としてキューに追加する
+export async function enqueueJob(job: JobStatus): Promise<void> {
+  await updateJobStatus(job.jobId, { ...job, status: 'waiting', progress: 0 });
+  startInlineWorker()?.wake();
+}
+
+// 失敗・キャンセルしたジョブを再投入する（保存済みのチェックポイントから再開される）
+// プレイリストは失敗した動画だけを再投入し、親ジョブはそれらの完了を待つ
+export async function retryJob(jobId: string): Promise<JobStatus | null> {
+  const job = await getJobStatus(jobId);
+  if (!job) {
+    return null;
+  }
+
+  let retried: JobStatus | null;
+  if (job.childJobIds) {
+    const children = await Promise.all(
+      job.childJobIds.map((childJobId) => getJobStatus(childJobId))
+    );
+    await Promise.all(
+      children
+        .filter((child): child is JobStatus => child !== null)
+        .map((child) => resetJobForRetry(child.jobId))
+    );
+    // 展開の途中で止まっていた場合は、まだ作成されていない子ジョブも追加する
+    await createMissingChildJobs(job);
+    retried = await resetJobForRetry(jobId, 'processing');
+    // 再投入する動画がなければこの時点で結果をまとめる
+    await updatePlaylistProgress(jobId);
+  } else {
+    retried = await resetJobForRetry(jobId);
+  }
+
+  startInlineWorker()?.wake();
+  return retried;
+}
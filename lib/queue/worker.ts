@@ -0,0 +1,127 @@
+import os from 'os';
+import { JobStatus } from '../types';
+import {
+  claimNextJob,
+  getJobStatus,
+  recoverExpiredJobs,
+  releaseJobLease,
+  renewJobLease,
+} from '../jobStore';
+import { runJob } from '../pipeline';
+
+export interface JobWorkerOptions {
+  // 同時に実行するジョブの上限
+  concurrency: number;
+  // ジョブの占有期限。実行中はこの 1/3 ごとに延長する
+  leaseMs: number;
+  pollIntervalMs: number;
+  // 占有期限切れで再実行する回数の上限
+  maxAttempts: number;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+// キューから待機中のジョブを取り出して実行するワーカー
+export class JobWorker {
+  public readonly workerId = `${os.hostname()}-${process.pid}-${Math.random()
+    .toString(36)
+    .substring(2, 8)}`;
+  private options: JobWorkerOptions;
+  private runningJobs = new Map<string, RunningJob>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(options: JobWorkerOptions) {
+    this.options = options;
+  }
+
+  public start() {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.poll();
+  }
+
+  // ジョブが追加されたときに次のポーリングを待たずに取り出す
+  public wake() {
+    this.poll();
+  }
+
+  // 新しいジョブの取り出しをやめ、実行中のジョブが終わるまで待つ
+  public async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.all(Array.from(this.runningJobs.values()).map((running) => running.done));
+  }
+
+  private async poll() {
+    if (this.polling || !this.timer) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await this.abortCancelledJobs();
+      await recoverExpiredJobs(this.options.maxAttempts);
+      while (this.timer && this.runningJobs.size < this.options.concurrency) {
+        const job = await claimNextJob(this.workerId, this.options.leaseMs);
+        if (!job) {
+          break;
+        }
+        const controller = new AbortController();
+        this.runningJobs.set(job.jobId, {
+          controller,
+          done: this.execute(job, controller),
+        });
+      }
+    } catch (error) {
+      console.error('ジョブの取り出しに失敗しました', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // キャンセルされたジョブの処理を中断する（別プロセスからのキャンセルも状態で検知する）
+  private async abortCancelledJobs() {
+    await Promise.all(
+      Array.from(this.runningJobs.entries()).map(async ([jobId, running]) => {
+        const job = await getJobStatus(jobId);
+        if (job?.status === 'cancelled') {
+          running.controller.abort();
+        }
+      })
+    );
+  }
+
+  private async execute(job: JobStatus, controller: AbortController) {
+    const renewal = setInterval(() => {
+      renewJobLease(job.jobId, this.workerId, this.options.leaseMs)
+        .then((renewed) => {
+          // 占有期限が切れて別のワーカーが取り出した場合は、二重に実行しないよう中断する
+          if (!renewed) {
+            console.warn(`ジョブの占有が外れたため中断します: ${job.jobId}`);
+            controller.abort();
+          }
+        })
+        .catch((error) => {
+          console.error(`ジョブの占有期限を延長できませんでした: ${job.jobId}`, error);
+        });
+    }, this.options.leaseMs / 3);
+
+    try {
+      await runJob(job, controller.signal);
+    } catch (error) {
+      console.error(`ジョブの実行に失敗しました: ${job.jobId}`, error);
+    } finally {
+      clearInterval(renewal);
+      await releaseJobLease(job.jobId, this.workerId).catch(() => undefined);
+      this.runningJobs.delete(job.jobId);
+      this.poll();
+    }
+  }
+}
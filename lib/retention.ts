@@ -0,0 +1,35 @@
+import { ProcessStatus } from './types';
+
+// ジョブのデータを保存しておく期間（ミリ秒）
+export interface RetentionPolicy {
+  // 完了したジョブの結果・文字起こし
+  resultMs: number;
+  // 失敗・キャンセルしたジョブ（再試行用のチェックポイントを含む）
+  errorMs: number;
+  // 期限切れとして残した記録（この期間を過ぎると履歴からも消える）
+  expiredMs: number;
+  // 保存期間を確認する間隔
+  sweepIntervalMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    resultMs: (Number(process.env.JOB_RESULT_RETENTION_DAYS) || 7) * DAY_MS,
+    errorMs: (Number(process.env.JOB_ERROR_RETENTION_HOURS) || 24) * HOUR_MS,
+    expiredMs: (Number(process.env.JOB_EXPIRED_RETENTION_DAYS) || 30) * DAY_MS,
+    sweepIntervalMs: (Number(process.env.JOB_SWEEP_INTERVAL_MINUTES) || 10) * 60 * 1000,
+  };
+}
+
+// 状態ごとの保存期間（完了時刻から数える）
+export function retentionRules(
+  policy: RetentionPolicy
+): { statuses: ProcessStatus[]; retentionMs: number }[] {
+  return [
+    { statuses: ['done'], retentionMs: policy.resultMs },
+    { statuses: ['error', 'cancelled'], retentionMs: policy.errorMs },
+  ];
+}
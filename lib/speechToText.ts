@@ -0,0 +1,83 @@
+import { createReadStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import { Transcription, TranscriptSegment } from './types';
+import { normalizeAudio, splitAudio } from './media/ffmpeg';
+import { languageFromWhisper } from './languageDetection';
+
+// Whisper API のファイルサイズ上限に収まるよう、64kbpsで10分ごとに分割
+const CHUNK_SECONDS = Number(process.env.WHISPER_CHUNK_SECONDS) || 600;
+
+interface TranscribeOptions {
+  language?: string;
+  onProgress?: (completedChunks: number, totalChunks: number) => void;
+  signal?: AbortSignal;
+}
+
+// Whisper互換のエンドポイント（WHISPER_BASE_URLでローカルサーバーも指定可能）
+function createWhisperClient(): OpenAI {
+  return new OpenAI({
+    apiKey: process.env.WHISPER_API_KEY || process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: process.env.WHISPER_BASE_URL || undefined,
+  });
+}
+
+// 音声ファイルを正規化・分割して文字起こしし、タイムスタンプを元の位置に戻して結合
+export async function transcribeAudioFile(
+  inputPath: string,
+  options: TranscribeOptions = {}
+): Promise<Transcription> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'yt-chapter-stt-'));
+
+  try {
+    const normalizedPath = path.join(workDir, 'normalized.mp3');
+    await normalizeAudio(inputPath, normalizedPath, options.signal);
+    const chunks = await splitAudio(normalizedPath, workDir, CHUNK_SECONDS, options.signal);
+
+    const client = createWhisperClient();
+    const model = process.env.WHISPER_MODEL || 'whisper-1';
+    const language = options.language && options.language !== 'auto' ? options.language : undefined;
+    const segments: TranscriptSegment[] = [];
+    let detectedLanguage: string | undefined;
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const response = await client.audio.transcriptions.create(
+        {
+          file: createReadStream(chunk.path),
+          model,
+          language,
+          response_format: 'verbose_json',
+        },
+        { signal: options.signal }
+      );
+      detectedLanguage = detectedLanguage ?? languageFromWhisper(response.language);
+
+      for (const segment of response.segments || []) {
+        const text = segment.text.trim();
+        if (text) {
+          segments.push({
+            text,
+            start: chunk.offset + segment.start,
+            end: chunk.offset + segment.end,
+          });
+        }
+      }
+
+      options.onProgress?.(i + 1, chunks.length);
+    }
+
+    if (segments.length === 0) {
+      throw new Error('音声から文字起こしを取得できませんでした');
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(' '),
+      segments,
+      language: language ?? detectedLanguage,
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
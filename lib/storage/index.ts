@@ -0,0 +1,24 @@
+import path from 'path';
+import { JobStorageAdapter } from './types';
+import { MemoryJobStorage } from './memoryStorage';
+import { SqliteJobStorage } from './sqliteStorage';
+
+export type { JobStorageAdapter, JobSummaryPage, JobSummaryQuery } from './types';
+export { MemoryJobStorage } from './memoryStorage';
+
+// JOB_STORE_DRIVER の値と実装の対応
+const storageFactories: Record<string, () => JobStorageAdapter> = {
+  sqlite: () =>
+    new SqliteJobStorage(process.env.JOB_STORE_PATH || path.join(process.cwd(), 'data', 'jobs.db')),
+  memory: () => new MemoryJobStorage(),
+};
+
+// 設定に応じたジョブの保存先を作成
+export function createJobStorage(): JobStorageAdapter {
+  const name = process.env.JOB_STORE_DRIVER || 'sqlite';
+  const factory = storageFactories[name];
+  if (!factory) {
+    throw new Error(`未対応のジョブストアです: ${name}`);
+  }
+  return factory();
+}
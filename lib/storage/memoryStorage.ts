@@ -0,0 +1,109 @@
+import { JOB_SUMMARY_FIELDS, JobStatus, JobSummary, ProcessStatus, StageDurations } from '../types';
+import { JobStorageAdapter, JobSummaryPage, JobSummaryQuery } from './types';
+import { jobSearchText } from './searchText';
+
+// プロセス内の Map に保存する実装（テストやローカルでの確認用。再起動で消える）
+export class MemoryJobStorage implements JobStorageAdapter {
+  private jobs = new Map<string, JobStatus>();
+
+  public async get(jobId: string): Promise<JobStatus | null> {
+    return this.jobs.get(jobId) ?? null;
+  }
+
+  public async save(job: JobStatus): Promise<void> {
+    this.jobs.set(job.jobId, job);
+  }
+
+  public async list(): Promise<JobStatus[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  public async delete(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  public async modify(
+    jobId: string,
+    update: (current: JobStatus | null) => JobStatus | null
+  ): Promise<JobStatus | null> {
+    const updated = update(this.jobs.get(jobId) ?? null);
+    if (updated) {
+      this.jobs.set(updated.jobId, updated);
+    }
+    return updated;
+  }
+
+  public async claimNext(claim: (job: JobStatus) => JobStatus): Promise<JobStatus | null> {
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === 'waiting')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!next) {
+      return null;
+    }
+    const claimed = claim(next);
+    this.jobs.set(claimed.jobId, claimed);
+    return claimed;
+  }
+
+  public async listExpiredLeases(now: string): Promise<JobStatus[]> {
+    return Array.from(this.jobs.values()).filter(
+      (job) => job.leaseExpiresAt !== undefined && job.leaseExpiresAt < now
+    );
+  }
+
+  public async listCompletedBefore(
+    statuses: ProcessStatus[],
+    completedBefore: string
+  ): Promise<JobStatus[]> {
+    return Array.from(this.jobs.values()).filter(
+      (job) =>
+        statuses.includes(job.status) &&
+        job.completedAt !== undefined &&
+        job.completedAt < completedBefore
+    );
+  }
+
+  public async listExpiredBefore(expiredBefore: string): Promise<JobStatus[]> {
+    return Array.from(this.jobs.values()).filter(
+      (job) =>
+        job.status === 'expired' && job.expiredAt !== undefined && job.expiredAt < expiredBefore
+    );
+  }
+
+  public async listRecentStageDurations(limit: number): Promise<StageDurations[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === 'done' && job.stageDurations)
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''))
+      .slice(0, limit)
+      .map((job) => job.stageDurations as StageDurations);
+  }
+
+  public async listJobSummaries({
+    statuses,
+    keywords,
+    offset,
+    limit,
+  }: JobSummaryQuery): Promise<JobSummaryPage> {
+    const jobs = Array.from(this.jobs.values())
+      .filter((job) => !job.parentJobId)
+      .filter((job) => !statuses || statuses.includes(job.status))
+      .filter((job) => {
+        const text = jobSearchText(job);
+        return keywords.every((keyword) => text.includes(keyword));
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      jobs: jobs.slice(offset, offset + limit).map((job) => {
+        const summary: Record<string, unknown> = {};
+        JOB_SUMMARY_FIELDS.forEach((field) => {
+          if (job[field] !== undefined) {
+            summary[field] = job[field];
+          }
+        });
+        return summary as unknown as JobSummary;
+      }),
+      total: jobs.length,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+export interface Migration {
+  version: number;
+  statements: string[];
+}
+
+// スキーマの変更は末尾に追加する（適用済みのバージョンは PRAGMA user_version に記録される）
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    statements: [
+      `CREATE TABLE jobs (
+        job_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        parent_job_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX idx_jobs_status ON jobs (status)',
+      'CREATE INDEX idx_jobs_parent_job_id ON jobs (parent_job_id)',
+      'CREATE INDEX idx_jobs_created_at ON jobs (created_at)',
+    ],
+  },
+  {
+    version: 2,
+    statements: [
+      'ALTER TABLE jobs ADD COLUMN lease_expires_at TEXT',
+      'CREATE INDEX idx_jobs_lease_expires_at ON jobs (lease_expires_at)',
+    ],
+  },
+  {
+    version: 3,
+    statements: [
+      'ALTER TABLE jobs ADD COLUMN completed_at TEXT',
+      "UPDATE jobs SET completed_at = json_extract(data, '$.completedAt')",
+      'CREATE INDEX idx_jobs_status_completed_at ON jobs (status, completed_at)',
+    ],
+  },
+  {
+    version: 4,
+    statements: [
+      'ALTER TABLE jobs ADD COLUMN expired_at TEXT',
+      "UPDATE jobs SET expired_at = json_extract(data, '$.expiredAt')",
+      'CREATE INDEX idx_jobs_expired_at ON jobs (expired_at)',
+    ],
+  },
+  {
+    version: 5,
+    statements: [
+      'ALTER TABLE jobs ADD COLUMN search_text TEXT',
+      // lib/storage/searchText.ts の jobSearchText と同じ内容で埋める
+      `UPDATE jobs SET search_text = LOWER(TRIM(
+        job_id
+        || COALESCE(' ' || json_extract(data, '$.title'), '')
+        || CASE json_extract(data, '$.source.type')
+             WHEN 'youtube' THEN ' ' || json_extract(data, '$.source.url') || ' ' || json_extract(data, '$.source.videoId')
+             WHEN 'playlist' THEN ' ' || json_extract(data, '$.source.url') || ' ' || json_extract(data, '$.source.playlistId')
+             WHEN 'subtitle' THEN ' ' || json_extract(data, '$.source.fileName')
+             WHEN 'media' THEN ' ' || json_extract(data, '$.source.fileName')
+             ELSE ''
+           END
+      ))`,
+      'CREATE INDEX idx_jobs_parent_job_id_created_at ON jobs (parent_job_id, created_at)',
+    ],
+  },
+];
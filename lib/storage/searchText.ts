@@ -0,0 +1,16 @@
+import { JobStatus } from '../types';
+
+// 履歴の検索対象にする文字列（ジョブID・タイトル・URL・動画ID・ファイル名）
+export function jobSearchText(job: JobStatus): string {
+  const { source } = job;
+  return [
+    job.jobId,
+    job.title,
+    source?.type === 'youtube' ? `${source.url} ${source.videoId}` : '',
+    source?.type === 'playlist' ? `${source.url} ${source.playlistId}` : '',
+    source?.type === 'subtitle' || source?.type === 'media' ? source.fileName : '',
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
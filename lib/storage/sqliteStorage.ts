@@ -0,0 +1,219 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { JOB_SUMMARY_FIELDS, JobStatus, JobSummary, ProcessStatus, StageDurations } from '../types';
+import { JobStorageAdapter, JobSummaryPage, JobSummaryQuery } from './types';
+import { migrations } from './migrations';
+import { jobSearchText } from './searchText';
+
+interface JobRow {
+  data: string;
+}
+
+// 組み込みの SQLite に保存する実装（再起動や複数インスタンスでもジョブを共有できる）
+export class SqliteJobStorage implements JobStorageAdapter {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+  }
+
+  public async get(jobId: string): Promise<JobStatus | null> {
+    return this.read(jobId);
+  }
+
+  public async save(job: JobStatus): Promise<void> {
+    this.write(job);
+  }
+
+  public async list(): Promise<JobStatus[]> {
+    const rows = this.db.prepare('SELECT data FROM jobs ORDER BY created_at').all() as JobRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  public async delete(jobId: string): Promise<void> {
+    this.db.prepare('DELETE FROM jobs WHERE job_id = ?').run(jobId);
+  }
+
+  public async modify(
+    jobId: string,
+    update: (current: JobStatus | null) => JobStatus | null
+  ): Promise<JobStatus | null> {
+    return this.db
+      .transaction(() => {
+        const updated = update(this.read(jobId));
+        if (updated) {
+          this.write(updated);
+        }
+        return updated;
+      })
+      .immediate();
+  }
+
+  // IMMEDIATE で先に書き込みロックを取り、複数のワーカーが同じジョブを取り出さないようにする
+  public async claimNext(claim: (job: JobStatus) => JobStatus): Promise<JobStatus | null> {
+    return this.db
+      .transaction(() => {
+        const row = this.db
+          .prepare("SELECT data FROM jobs WHERE status = 'waiting' ORDER BY created_at LIMIT 1")
+          .get() as JobRow | undefined;
+        if (!row) {
+          return null;
+        }
+        const claimed = claim(JSON.parse(row.data));
+        this.write(claimed);
+        return claimed;
+      })
+      .immediate();
+  }
+
+  public async listExpiredLeases(now: string): Promise<JobStatus[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM jobs WHERE lease_expires_at < ? ORDER BY created_at')
+      .all(now) as JobRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  public async listCompletedBefore(
+    statuses: ProcessStatus[],
+    completedBefore: string
+  ): Promise<JobStatus[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM jobs
+         WHERE status IN (${statuses.map(() => '?').join(', ')}) AND completed_at < ?
+         ORDER BY completed_at`
+      )
+      .all(...statuses, completedBefore) as JobRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  public async listExpiredBefore(expiredBefore: string): Promise<JobStatus[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT data FROM jobs WHERE status = 'expired' AND expired_at < ? ORDER BY expired_at"
+      )
+      .all(expiredBefore) as JobRow[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // 文字起こしなどを含む data 全体は読み込まず、所要時間だけを取り出す
+  public async listRecentStageDurations(limit: number): Promise<StageDurations[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT json_extract(data, '$.stageDurations') AS stage_durations FROM jobs
+         WHERE status = 'done' AND stage_durations IS NOT NULL
+         ORDER BY completed_at DESC LIMIT ?`
+      )
+      .all(limit) as { stage_durations: string }[];
+    return rows.map((row) => JSON.parse(row.stage_durations));
+  }
+
+  // 一覧に必要な項目だけを data から取り出し、絞り込みと件数の計算も SQL で行う
+  public async listJobSummaries({
+    statuses,
+    keywords,
+    offset,
+    limit,
+  }: JobSummaryQuery): Promise<JobSummaryPage> {
+    const conditions = ['parent_job_id IS NULL'];
+    const params: (string | number)[] = [];
+    if (statuses) {
+      if (statuses.length === 0) {
+        return { jobs: [], total: 0 };
+      }
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      params.push(...statuses);
+    }
+    keywords.forEach((keyword) => {
+      conditions.push("search_text LIKE ? ESCAPE '\\'");
+      params.push(`%${keyword.replace(/[\\%_]/g, '\\$&')}%`);
+    });
+    const where = conditions.join(' AND ');
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM jobs WHERE ${where}`)
+      .get(...params) as { total: number };
+    const paths = JOB_SUMMARY_FIELDS.map((field) => `'$.${field}'`).join(', ');
+    const rows = this.db
+      .prepare(
+        `SELECT json_extract(data, ${paths}) AS summary FROM jobs
+         WHERE ${where}
+         ORDER BY created_at DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset) as { summary: string }[];
+
+    // 複数のパスを指定した json_extract は JSON 配列を返す（存在しない項目は null）
+    const jobs = rows.map((row) => {
+      const values: unknown[] = JSON.parse(row.summary);
+      const summary: Record<string, unknown> = {};
+      JOB_SUMMARY_FIELDS.forEach((field, index) => {
+        if (values[index] !== null) {
+          summary[field] = values[index];
+        }
+      });
+      return summary as unknown as JobSummary;
+    });
+    return { jobs, total };
+  }
+
+  private read(jobId: string): JobStatus | null {
+    const row = this.db.prepare('SELECT data FROM jobs WHERE job_id = ?').get(jobId) as
+      | JobRow
+      | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  private write(job: JobStatus) {
+    this.db
+      .prepare(
+        `INSERT INTO jobs (job_id, status, parent_job_id, created_at, updated_at, completed_at, expired_at, lease_expires_at, search_text, data)
+         VALUES (@jobId, @status, @parentJobId, @createdAt, @updatedAt, @completedAt, @expiredAt, @leaseExpiresAt, @searchText, @data)
+         ON CONFLICT (job_id) DO UPDATE SET
+           status = excluded.status,
+           parent_job_id = excluded.parent_job_id,
+           updated_at = excluded.updated_at,
+           completed_at = excluded.completed_at,
+           expired_at = excluded.expired_at,
+           lease_expires_at = excluded.lease_expires_at,
+           search_text = excluded.search_text,
+           data = excluded.data`
+      )
+      .run({
+        jobId: job.jobId,
+        status: job.status,
+        parentJobId: job.parentJobId ?? null,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt ?? null,
+        completedAt: job.completedAt ?? null,
+        expiredAt: job.expiredAt ?? null,
+        leaseExpiresAt: job.leaseExpiresAt ?? null,
+        searchText: jobSearchText(job),
+        data: JSON.stringify(job),
+      });
+  }
+
+  // 未適用のマイグレーションを順にトランザクション内で適用
+  private migrate() {
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number;
+
+    migrations
+      .filter((migration) => migration.version > currentVersion)
+      .sort((a, b) => a.version - b.version)
+      .forEach((migration) => {
+        this.db.transaction(() => {
+          migration.statements.forEach((statement) => this.db.exec(statement));
+          this.db.pragma(`user_version = ${migration.version}`);
+        })();
+      });
+  }
+}
@@ -0,0 +1,42 @@
+import { JobStatus, JobSummary, ProcessStatus, StageDurations } from '../types';
+
+// 履歴の一覧の検索条件（プレイリストから展開した子ジョブは含めない）
+export interface JobSummaryQuery {
+  // 指定した場合はこの状態のジョブだけを返す
+  statuses?: ProcessStatus[];
+  // 小文字にした検索語（すべてを含むジョブだけを返す）
+  keywords: string[];
+  offset: number;
+  limit: number;
+}
+
+export interface JobSummaryPage {
+  jobs: JobSummary[];
+  // 条件に一致したジョブの総数
+  total: number;
+}
+
+// ジョブの保存先ごとの実装が満たすインターフェース
+export interface JobStorageAdapter {
+  get(jobId: string): Promise<JobStatus | null>;
+  save(job: JobStatus): Promise<void>;
+  list(): Promise<JobStatus[]>;
+  delete(jobId: string): Promise<void>;
+  // 読み込みから保存までを他の更新と競合しないように行う（update が null を返した場合は保存しない）
+  modify(
+    jobId: string,
+    update: (current: JobStatus | null) => JobStatus | null
+  ): Promise<JobStatus | null>;
+  // 最も古い待機中のジョブを claim で書き換えて保存し、書き換え後のジョブを返す
+  claimNext(claim: (job: JobStatus) => JobStatus): Promise<JobStatus | null>;
+  // 占有期限が指定時刻より前のジョブを返す
+  listExpiredLeases(now: string): Promise<JobStatus[]>;
+  // 指定した状態のうち、完了時刻が指定時刻より前のジョブを返す（保存期間の確認に使う）
+  listCompletedBefore(statuses: ProcessStatus[], completedBefore: string): Promise<JobStatus[]>;
+  // 期限切れになった時刻が指定時刻より前のジョブを返す（期限切れの記録の削除に使う）
+  listExpiredBefore(expiredBefore: string): Promise<JobStatus[]>;
+  // 完了時刻が新しい順に、完了したジョブの段階ごとの所要時間を最大 limit 件返す（残り時間の見積もりに使う）
+  listRecentStageDurations(limit: number): Promise<StageDurations[]>;
+  // 作成日時が新しい順に、条件に一致するジョブの一覧用の項目を返す
+  listJobSummaries(query: JobSummaryQuery): Promise<JobSummaryPage>;
+}
@@ -0,0 +1,160 @@
+import { TranscriptSegment } from './types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'sbv' | 'youtube-xml';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.sbv', '.xml'];
+
+// 字幕ファイルを解析して文字起こしと同じセグメント形式に変換
+export function parseSubtitles(content: string, fileName = ''): TranscriptSegment[] {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format = detectSubtitleFormat(normalized, fileName);
+
+  let segments: TranscriptSegment[];
+  switch (format) {
+    case 'youtube-xml':
+      segments = parseYouTubeXml(normalized);
+      break;
+    case 'sbv':
+      segments = parseSbv(normalized);
+      break;
+    default:
+      // SRTとWebVTTはキューの構造が同じなので共通の処理で解析
+      segments = parseCues(normalized);
+      break;
+  }
+
+  return segments.filter((segment) => segment.text.length > 0).sort((a, b) => a.start - b.start);
+}
+
+export function detectSubtitleFormat(content: string, fileName = ''): SubtitleFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (trimmed.startsWith('<')) {
+    return 'youtube-xml';
+  }
+  if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*$/m.test(content)) {
+    return 'sbv';
+  }
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'vtt' || extension === 'sbv') {
+    return extension;
+  }
+  if (extension === 'xml') {
+    return 'youtube-xml';
+  }
+  return 'srt';
+}
+
+// 「HH:MM:SS,mmm」「MM:SS.mmm」などのタイムコードを秒に変換
+function parseCueTime(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function parseCues(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    // WebVTTのキュー設定（align:start など）は無視する
+    const start = parseCueTime(startText);
+    const end = parseCueTime(endText.trim().split(/\s+/)[0]);
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+
+    if (!isNaN(start) && !isNaN(end)) {
+      segments.push({ text, start, end });
+    }
+  }
+
+  return segments;
+}
+
+function parseSbv(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  const blocks = content.split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const [timing, ...lines] = block.trim().split('\n');
+    if (!timing || !timing.includes(',')) {
+      continue;
+    }
+
+    const [startText, endText] = timing.split(',');
+    const start = parseCueTime(startText);
+    const end = parseCueTime(endText);
+    if (!isNaN(start) && !isNaN(end)) {
+      segments.push({ text: cleanCueText(lines.join(' ')), start, end });
+    }
+  }
+
+  return segments;
+}
+
+// YouTubeの字幕XML（<text start dur> 形式と srv3 の <p t d> 形式）を解析
+function parseYouTubeXml(content: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  const textPattern = /<text\b([^>]*)>([\s\S]*?)<\/text>/g;
+  let match: RegExpExecArray | null;
+  while ((match = textPattern.exec(content)) !== null) {
+    const start = parseFloat(readAttribute(match[1], 'start') ?? '');
+    const duration = parseFloat(readAttribute(match[1], 'dur') ?? '0');
+    if (!isNaN(start)) {
+      segments.push({
+        text: decodeXmlEntities(cleanCueText(match[2])),
+        start,
+        end: start + (isNaN(duration) ? 0 : duration),
+      });
+    }
+  }
+
+  const paragraphPattern = /<p\b([^>]*)>([\s\S]*?)<\/p>/g;
+  while ((match = paragraphPattern.exec(content)) !== null) {
+    const startMs = parseFloat(readAttribute(match[1], 't') ?? '');
+    const durationMs = parseFloat(readAttribute(match[1], 'd') ?? '0');
+    if (!isNaN(startMs)) {
+      segments.push({
+        text: decodeXmlEntities(cleanCueText(match[2])),
+        start: startMs / 1000,
+        end: (startMs + (isNaN(durationMs) ? 0 : durationMs)) / 1000,
+      });
+    }
+  }
+
+  return segments;
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+// 書式タグやインラインのタイムスタンプを除去して1行にまとめる
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
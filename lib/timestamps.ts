@@ -0,0 +1,87 @@
+// 画面表示・プロンプト・書き出しで共通に使うタイムスタンプの変換
+
+export interface TimestampFormatOptions {
+  // auto: 1時間以上のときだけ時間を付ける（MM:SS / H:MM:SS）、always: 常に付ける
+  hours?: 'auto' | 'always';
+  // 時間を2桁にする（HH:MM:SS）。字幕などの書き出し形式で使う
+  padHours?: boolean;
+  // ミリ秒を付ける場合の区切り文字（SRT は ','、WebVTT などは '.'）
+  milliseconds?: '.' | ',';
+}
+
+export interface TimecodeOptions {
+  // ドロップフレーム（29.97 / 59.94 fps で実時間に合わせるためフレーム番号を飛ばす）
+  dropFrame?: boolean;
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// 秒を「MM:SS」「H:MM:SS」に変換する（1時間を超えると自動で時間を付ける）
+export function formatTimestamp(seconds: number, options: TimestampFormatOptions = {}): string {
+  const { hours: hoursMode = 'auto', padHours = false, milliseconds } = options;
+  const totalMs = milliseconds
+    ? Math.round(Math.max(0, seconds) * 1000)
+    : Math.floor(Math.max(0, seconds)) * 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  let result = `${pad(minutes)}:${pad(totalSeconds % 60)}`;
+  if (hoursMode === 'always' || hours > 0) {
+    result = `${padHours ? pad(hours) : hours}:${result}`;
+  }
+  if (milliseconds) {
+    result += `${milliseconds}${pad(totalMs % 1000, 3)}`;
+  }
+  return result;
+}
+
+// いずれかの時刻が1時間以上の場合は、桁を揃えるためにすべて H:MM:SS で表示する
+export function timestampHoursMode(seconds: number[]): 'auto' | 'always' {
+  return seconds.some((value) => value >= 3600) ? 'always' : 'auto';
+}
+
+// 「M:SS」「MM:SS」「H:MM:SS」（末尾に .mmm / ,mmm のミリ秒も可）を秒に変換する
+// 形式が正しくない場合は null
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?::\d{1,2}){1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    return null;
+  }
+  const parts = match[1].split(':').map((part) => parseInt(part, 10));
+  // 先頭以外の分・秒は 60 未満でなければならない
+  if (parts.slice(1).some((part) => part >= 60)) {
+    return null;
+  }
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return match[2] ? seconds + parseInt(match[2].padEnd(3, '0'), 10) / 1000 : seconds;
+}
+
+// 秒を映像編集ソフト向けの「HH:MM:SS:FF」（ドロップフレームは「HH:MM:SS;FF」）に変換する
+export function formatTimecode(
+  seconds: number,
+  fps: number,
+  options: TimecodeOptions = {}
+): string {
+  const nominal = Math.round(fps);
+  let frames = Math.round(Math.max(0, seconds) * fps);
+
+  if (options.dropFrame) {
+    // 10分ごとを除く毎分の先頭で、29.97 fps なら2フレーム（59.94 fps なら4フレーム）の番号を飛ばす
+    const dropped = Math.round(fps * 0.066666);
+    const framesPer10Minutes = Math.round(fps * 600);
+    const framesPerMinute = nominal * 60 - dropped;
+    const tenMinutes = Math.floor(frames / framesPer10Minutes);
+    const remainder = frames % framesPer10Minutes;
+    frames +=
+      dropped * 9 * tenMinutes +
+      (remainder > dropped ? dropped * Math.floor((remainder - dropped) / framesPerMinute) : 0);
+  }
+
+  const frame = frames % nominal;
+  const totalSeconds = Math.floor(frames / nominal);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const separator = options.dropFrame ? ';' : ':';
+  return `${pad(hours)}:${pad(minutes)}:${pad(totalSeconds % 60)}${separator}${pad(frame)}`;
+}
@@ -0,0 +1,17 @@
+import { toBaseLanguage } from './languageDetection';
+
+// 話題の転換を示す言い回し（言語ごと）
+const TOPIC_CUES: Record<string, RegExp> = {
+  ja: /(では|それでは|次に|ところで|さて|ということで|まとめ|結論|重要な|ポイント|注意点|最後に)/,
+  en: /(^\s*(now|next|so|okay|alright)\b|\b(moving on|let's (talk|look|move|start|get)|first(ly)?|second(ly)?|finally|in conclusion|to (sum up|summarize|wrap up)|the next|another (thing|point)|key point|important)\b)/i,
+  ko: /(그럼|그러면|다음으로|먼저|마지막으로|정리하면|결론적으로|중요한)/,
+  zh: /(那么|接下来|首先|其次|最后|总结|总之|重要的是)/,
+  es: /\b(ahora|siguiente|primero|segundo|finalmente|en resumen|para terminar|importante)\b/i,
+  fr: /\b(maintenant|ensuite|d'abord|premièrement|enfin|en résumé|pour conclure|important)\b/i,
+  de: /\b(jetzt|als nächstes|zuerst|erstens|zweitens|schließlich|zusammenfassend|wichtig)\b/i,
+};
+
+// 言語に対応する転換語のパターンを取得（未対応の言語では null）
+export function getTopicCuePattern(language: string): RegExp | null {
+  return TOPIC_CUES[toBaseLanguage(language)] ?? null;
+}
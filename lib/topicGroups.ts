@@ -0,0 +1,128 @@
+import { BoundaryCandidate, TranscriptSegment } from './types';
+import { SceneCut, SilenceInterval } from './media/ffmpeg';
+import { getTopicCuePattern } from './topicCues';
+
+export interface TopicGroup {
+  start: number;
+  texts: string[];
+  segments: TranscriptSegment[];
+  // このグループの開始位置にある区切りの強さ（0〜1）
+  boundaryStrength: number;
+}
+
+// 字幕の間隔がこれ以上空いたら区切りとみなす（秒）
+const LONG_GAP_SECONDS = 5;
+// 区切り候補がセグメントの境界に対応しているとみなす許容誤差（秒）
+const CANDIDATE_TOLERANCE_SECONDS = 0.5;
+// 区切り候補だけでグループを分ける強さの閾値
+const CANDIDATE_SPLIT_THRESHOLD = 0.6;
+// この長さの無音で強さが最大になる（秒）
+const FULL_STRENGTH_SILENCE_SECONDS = 3;
+
+// 無音区間を区切り候補に変換（話し始めの位置を区切りとし、長い無音ほど強くする）
+export function candidatesFromSilences(silences: SilenceInterval[]): BoundaryCandidate[] {
+  return silences.map((silence) => ({
+    time: silence.end,
+    strength: Math.min(1, silence.duration / FULL_STRENGTH_SILENCE_SECONDS),
+    source: 'silence',
+  }));
+}
+
+// シーン切り替えを区切り候補に変換（切り替わりが大きいほど強くする）
+export function candidatesFromSceneCuts(cuts: SceneCut[]): BoundaryCandidate[] {
+  return cuts.map((cut) => ({
+    time: cut.time,
+    strength: Math.min(1, cut.score),
+    source: 'scene',
+  }));
+}
+
+interface BuildTopicGroupsOptions {
+  candidates?: BoundaryCandidate[];
+  // 転換語の判定に使う言語
+  language?: string;
+}
+
+// 字幕セグメントを話題ごとのグループにまとめ、maxGroups 個以下になるまで統合する
+export function buildTopicGroups(
+  segments: TranscriptSegment[],
+  maxGroups: number,
+  options: BuildTopicGroupsOptions = {}
+): TopicGroup[] {
+  const sortedCandidates = [...(options.candidates || [])].sort((a, b) => a.time - b.time);
+  const topicCuePattern = getTopicCuePattern(options.language || 'ja');
+  let candidateIndex = 0;
+
+  const topicGroups: TopicGroup[] = [];
+  let currentGroup: TopicGroup = {
+    start: segments[0].start,
+    texts: [segments[0].text],
+    segments: [segments[0]],
+    boundaryStrength: 1,
+  };
+
+  for (let i = 1; i < segments.length; i++) {
+    const currentSegment = segments[i];
+    const prevSegment = segments[i - 1];
+
+    const gap = currentSegment.start - prevSegment.end;
+
+    // 前のセグメントの終わりから現在のセグメントの始まりまでにある候補の強さ
+    // 無音とシーン切り替えが重なる場合はより強い区切りとして合成する
+    let candidateStrength = 0;
+    while (
+      candidateIndex < sortedCandidates.length &&
+      sortedCandidates[candidateIndex].time <= currentSegment.start + CANDIDATE_TOLERANCE_SECONDS
+    ) {
+      const candidate = sortedCandidates[candidateIndex];
+      if (candidate.time >= prevSegment.end - CANDIDATE_TOLERANCE_SECONDS) {
+        candidateStrength = 1 - (1 - candidateStrength) * (1 - candidate.strength);
+      }
+      candidateIndex++;
+    }
+
+    const hasTopicChange = topicCuePattern ? topicCuePattern.test(currentSegment.text) : false;
+    const hasLongGap = gap > LONG_GAP_SECONDS;
+    const hasStrongCandidate = candidateStrength >= CANDIDATE_SPLIT_THRESHOLD;
+
+    if (hasLongGap || hasTopicChange || hasStrongCandidate) {
+      topicGroups.push(currentGroup);
+      currentGroup = {
+        start: currentSegment.start,
+        texts: [currentSegment.text],
+        segments: [currentSegment],
+        boundaryStrength: candidateStrength,
+      };
+    } else {
+      currentGroup.texts.push(currentSegment.text);
+      currentGroup.segments.push(currentSegment);
+    }
+  }
+
+  topicGroups.push(currentGroup);
+
+  // 短いグループから統合する。強い区切りほど残りやすくする
+  while (topicGroups.length > maxGroups) {
+    let minScore = Infinity;
+    let mergeIndex = 0;
+
+    for (let i = 0; i < topicGroups.length - 1; i++) {
+      const duration = topicGroups[i + 1].start - topicGroups[i].start;
+      const score = duration * (1 + topicGroups[i + 1].boundaryStrength);
+      if (score < minScore) {
+        minScore = score;
+        mergeIndex = i;
+      }
+    }
+
+    topicGroups[mergeIndex].texts = topicGroups[mergeIndex].texts.concat(
+      topicGroups[mergeIndex + 1].texts
+    );
+    topicGroups[mergeIndex].segments = topicGroups[mergeIndex].segments.concat(
+      topicGroups[mergeIndex + 1].segments
+    );
+    topicGroups.splice(mergeIndex + 1, 1);
+  }
+
+  return topicGroups;
+}
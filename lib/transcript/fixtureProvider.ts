@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CaptionTrack, TranscriptSegment } from '../types';
+import { FetchTranscriptOptions, TranscriptNotFoundError, TranscriptProvider } from './types';
+
+interface FixtureTrack extends CaptionTrack {
+  segments: TranscriptSegment[];
+}
+
+interface FixtureFile {
+  tracks: FixtureTrack[];
+}
+
+// ローカルのJSONファイル（<dir>/<videoId>.json）から字幕を返すオフライン用の実装
+export class FixtureTranscriptProvider implements TranscriptProvider {
+  public readonly name = 'fixture';
+  public readonly supportsTrackKind = true;
+
+  constructor(private readonly directory: string) {}
+
+  public async fetchTranscript(
+    videoId: string,
+    language: string,
+    options: FetchTranscriptOptions = {}
+  ): Promise<TranscriptSegment[]> {
+    const tracks = await this.readTracks(videoId);
+    const candidates = tracks.filter((track) => track.language === language);
+    const track =
+      candidates.find((candidate) => candidate.isAutoGenerated === !!options.autoGenerated) ??
+      candidates[0] ??
+      null;
+
+    if (!track) {
+      throw new TranscriptNotFoundError(videoId, language);
+    }
+    return track.segments;
+  }
+
+  public async listTracks(videoId: string): Promise<CaptionTrack[]> {
+    const tracks = await this.readTracks(videoId);
+    return tracks.map(({ language, name, isAutoGenerated }) => ({
+      language,
+      name,
+      isAutoGenerated,
+    }));
+  }
+
+  private async readTracks(videoId: string): Promise<FixtureTrack[]> {
+    const filePath = path.join(this.directory, `${path.basename(videoId)}.json`);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const fixture: FixtureFile = JSON.parse(content);
+      return fixture.tracks || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import path from 'path';
+import { TranscriptProvider } from './types';
+import { RapidApiTranscriptProvider } from './rapidApiProvider';
+import { FixtureTranscriptProvider } from './fixtureProvider';
+
+export type { FetchTranscriptOptions, TranscriptProvider } from './types';
+export { TranscriptNotFoundError } from './types';
+export { detectSpokenLanguage, selectCaptionTrack } from './trackSelection';
+
+// TRANSCRIPT_PROVIDER の値と実装の対応
+const providerFactories: Record<string, () => TranscriptProvider> = {
+  rapidapi: () =>
+    new RapidApiTranscriptProvider(process.env.RAPIDAPI_KEY, process.env.RAPIDAPI_HOST),
+  fixture: () =>
+    new FixtureTranscriptProvider(
+      process.env.TRANSCRIPT_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'transcripts')
+    ),
+};
+
+let provider: TranscriptProvider | null = null;
+
+// 設定に応じた字幕プロバイダーを取得
+export function getTranscriptProvider(): TranscriptProvider {
+  if (!provider) {
+    const name = process.env.TRANSCRIPT_PROVIDER || 'rapidapi';
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`未対応の字幕プロバイダーです: ${name}`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
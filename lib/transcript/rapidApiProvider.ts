@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { CaptionTrack, TranscriptSegment } from '../types';
+import { FetchTranscriptOptions, TranscriptNotFoundError, TranscriptProvider } from './types';
+import { fetchCaptionTracks } from './youtubeCaptionTracks';
+
+const DEFAULT_RAPIDAPI_HOST = 'youtube-transcript3.p.rapidapi.com';
+
+// RapidAPI (youtube-transcript3) を使った字幕取得
+export class RapidApiTranscriptProvider implements TranscriptProvider {
+  public readonly name = 'rapidapi';
+  // API は言語しか指定できず、手動と自動生成のどちらが返るかは API 側に任される
+  public readonly supportsTrackKind = false;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    private readonly host: string = DEFAULT_RAPIDAPI_HOST
+  ) {}
+
+  // 言語だけで取得する（options.autoGenerated は使わない）
+  public async fetchTranscript(
+    videoId: string,
+    language: string,
+    options: FetchTranscriptOptions = {}
+  ): Promise<TranscriptSegment[]> {
+    try {
+      const response = await axios.get(`https://${this.host}/api/transcript`, {
+        params: {
+          videoId,
+          lang: language,
+        },
+        headers: {
+          'X-RapidAPI-Key': this.apiKey,
+          'X-RapidAPI-Host': this.host,
+        },
+        signal: options.signal,
+      });
+
+      if (!response.data || !Array.isArray(response.data.transcript)) {
+        throw new TranscriptNotFoundError(videoId, language);
+      }
+
+      return response.data.transcript.map((item: any) => {
+        const start = parseFloat(item.offset);
+        const end = start + parseFloat(item.duration);
+
+        return {
+          text: item.text,
+          start,
+          end,
+        };
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new TranscriptNotFoundError(videoId, language);
+      }
+      throw error;
+    }
+  }
+
+  public async listTracks(videoId: string, signal?: AbortSignal): Promise<CaptionTrack[]> {
+    return fetchCaptionTracks(videoId, signal);
+  }
+}
@@ -0,0 +1,47 @@
+import { CaptionTrack } from '../types';
+import { toBaseLanguage } from '../languageDetection';
+
+// 自動生成（音声認識）の字幕は話されている言語で作られるため、その言語を話者の言語とみなす
+export function detectSpokenLanguage(tracks: CaptionTrack[]): string | null {
+  const autoTrack = tracks.find((track) => track.isAutoGenerated);
+  return autoTrack ? autoTrack.language : null;
+}
+
+// 要求された言語（または自動検出）に最適な字幕トラックを選ぶ
+// 同じ言語なら手動で作成された字幕を自動生成より優先する
+// autoGenerated を指定した場合は、その種類のトラックがあればそれを選ぶ
+export function selectCaptionTrack(
+  tracks: CaptionTrack[],
+  requestedLanguage: string,
+  autoGenerated?: boolean
+): CaptionTrack | null {
+  if (requestedLanguage !== 'auto' && autoGenerated !== undefined) {
+    const exact = tracks.find(
+      (track) => track.language === requestedLanguage && track.isAutoGenerated === autoGenerated
+    );
+    if (exact) {
+      return exact;
+    }
+  }
+
+  const preferManual = (candidates: CaptionTrack[]) =>
+    candidates.find((track) => !track.isAutoGenerated) ?? candidates[0] ?? null;
+
+  const matching = (language: string) => {
+    const exact = tracks.filter((track) => track.language === language);
+    if (exact.length > 0) {
+      return exact;
+    }
+    return tracks.filter((track) => toBaseLanguage(track.language) === toBaseLanguage(language));
+  };
+
+  if (requestedLanguage !== 'auto') {
+    return preferManual(matching(requestedLanguage));
+  }
+
+  const spokenLanguage = detectSpokenLanguage(tracks);
+  if (spokenLanguage) {
+    return preferManual(matching(spokenLanguage));
+  }
+  return preferManual(tracks);
+}
@@ -0,0 +1,33 @@
+import { CaptionTrack, TranscriptSegment } from '../types';
+
+export interface FetchTranscriptOptions {
+  // 自動生成の字幕を取得する場合は true（未指定なら手動の字幕を優先）
+  autoGenerated?: boolean;
+  // ジョブがキャンセルされたときにリクエストを中断する
+  signal?: AbortSignal;
+}
+
+// 字幕ソースごとの実装が満たすインターフェース
+export interface TranscriptProvider {
+  readonly name: string;
+  // 同じ言語の手動と自動生成の字幕を区別して取得できるか（false の場合 autoGenerated は無視される）
+  readonly supportsTrackKind: boolean;
+
+  // 指定した言語の字幕セグメントを取得
+  fetchTranscript(
+    videoId: string,
+    language: string,
+    options?: FetchTranscriptOptions
+  ): Promise<TranscriptSegment[]>;
+
+  // 動画で利用可能な字幕トラックを一覧
+  listTracks(videoId: string, signal?: AbortSignal): Promise<CaptionTrack[]>;
+}
+
+// 指定した動画・言語の字幕が存在しない場合のエラー
+export class TranscriptNotFoundError extends Error {
+  constructor(videoId: string, language: string) {
+    super(`字幕が見つかりません: ${videoId} (${language})`);
+    this.name = 'TranscriptNotFoundError';
+  }
+}
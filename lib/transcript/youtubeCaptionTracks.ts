@@ -0,0 +1,71 @@
+import axios from 'axios';
+import { CaptionTrack } from '../types';
+
+// 視聴ページの取得が応答しない場合に打ち切るまでの時間
+const REQUEST_TIMEOUT_MS = 15000;
+
+interface PlayerCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string;
+  name?: { simpleText?: string; runs?: { text: string }[] };
+}
+
+// 視聴ページに埋め込まれたプレイヤー情報から字幕トラックの一覧を取得
+export async function fetchCaptionTracks(
+  videoId: string,
+  signal?: AbortSignal
+): Promise<CaptionTrack[]> {
+  const response = await axios.get<string>('https://www.youtube.com/watch', {
+    params: { v: videoId, hl: 'ja' },
+    headers: { 'Accept-Language': 'ja,en;q=0.8' },
+    responseType: 'text',
+    timeout: REQUEST_TIMEOUT_MS,
+    signal,
+  });
+
+  return extractCaptionTracks(response.data).map((track) => ({
+    language: track.languageCode,
+    name: track.name?.simpleText ?? track.name?.runs?.map((run) => run.text).join('') ?? '',
+    isAutoGenerated: track.kind === 'asr',
+  }));
+}
+
+function extractCaptionTracks(html: string): PlayerCaptionTrack[] {
+  const marker = '"captionTracks":';
+  const index = html.indexOf(marker);
+  if (index === -1) {
+    return [];
+  }
+
+  // JSON配列の終端を括弧の対応で探す
+  const start = index + marker.length;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(html.slice(start, i + 1));
+        } catch (error) {
+          return [];
+        }
+      }
+    }
+  }
+  return [];
+}
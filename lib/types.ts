@@ -1,3 +1,6 @@
+import type { TopicGroup } from './topicGroups';
+import type { PlaylistVideo } from './playlist/types';
+
 export type ProcessStatus =
   | 'idle'
   | 'waiting'
@@ -6,7 +9,50 @@ export type ProcessStatus =
   | 'transcribing'
   | 'generating'
   | 'done'
-  | 'error';
+  | 'error'
+  | 'cancelled'
+  // 保存期間を過ぎて結果などのデータを削除したジョブ
+  | 'expired';
+
+// 実行を終えたジョブの状態（占有期限が切れても再実行しない）
+export const FINISHED_STATUSES: ProcessStatus[] = ['done', 'error', 'cancelled', 'expired'];
+
+export type JobSource =
+  | { type: 'youtube'; url: string; videoId: string }
+  | { type: 'subtitle'; fileName: string; filePath: string }
+  | { type: 'media'; fileName: string; mediaPath: string }
+  | { type: 'playlist'; url: string; playlistId: string };
+
+// パイプラインの段階（進捗率の重み付けと残り時間の見積もりに使う）
+export type PipelineStage =
+  | 'resolve'
+  | 'fetchTranscript'
+  | 'download'
+  | 'transcribe'
+  | 'analyze'
+  | 'group'
+  | 'generate'
+  | 'validate';
+
+// 段階ごとの所要時間（ミリ秒）
+export type StageDurations = Partial<Record<PipelineStage, number>>;
+
+// ワーカーがジョブを実行するときに使う、リクエスト時の指定内容
+export interface JobSettings {
+  language: string;
+  // 字幕トラックの種類の指定（自動生成なら true、手動なら false）
+  autoGenerated?: boolean;
+}
+
+// 各段階の出力。再試行時は保存済みの段階を飛ばして続きから処理する
+export interface JobCheckpoints {
+  transcription?: Transcription;
+  topicGroups?: TopicGroup[];
+  // LLM が返したチャプターの文字列（整形前）
+  llmResponse?: string;
+  // プレイリストの親ジョブが展開した動画の一覧（childJobIds と同じ順）
+  playlistVideos?: PlaylistVideo[];
+}
 
 export interface ProcessRequest {
   url: string;
@@ -18,13 +64,97 @@ export interface ProcessResponse {
   status: ProcessStatus;
 }
 
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface Transcription {
+  text: string;
+  segments: TranscriptSegment[];
+  // メディアの実際の長さ（秒）。不明な場合は最後のセグメントの終了時刻を使う
+  duration?: number;
+  // メディアから検出したチャプターの区切り候補
+  boundaryCandidates?: BoundaryCandidate[];
+  // 字幕トラックや音声認識から判明した言語コード
+  language?: string;
+}
+
+export interface BoundaryCandidate {
+  time: number;
+  // 0〜1。大きいほど区切りとして確からしい
+  strength: number;
+  source: 'silence' | 'scene';
+}
+
+export interface CaptionTrack {
+  language: string;
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+export interface Chapter {
+  // 開始時刻（秒）
+  start: number;
+  title: string;
+  // 終了時刻（秒）。省略した場合は次のチャプターの開始時刻（最後のチャプターは動画の長さ）
+  end?: number;
+}
+
 export interface JobStatus {
   jobId: string;
   status: ProcessStatus;
   progress: number;
+  // 現在の処理内容（画面に表示する）
+  step?: string;
+  stage?: PipelineStage;
+  stageDurations?: StageDurations;
+  estimatedCompletionAt?: string;
+  source?: JobSource;
+  settings?: JobSettings;
+  // 動画のタイトル（プレイリストから展開した場合など、分かっている場合のみ）
+  title?: string;
+  // プレイリストのジョブでは子ジョブのID、子ジョブでは親ジョブのID
+  parentJobId?: string;
+  childJobIds?: string[];
+  // 処理に使われた言語（自動検出の場合は検出結果）
+  language?: string;
   error?: string;
+  // 結果のテキスト（単体の動画では chapters を書き出したもの、プレイリストでは動画ごとにまとめたもの）
   result?: string;
+  chapters?: Chapter[];
+  // 動画の長さ（秒）
+  duration?: number;
+  // アップロードした動画から検出したシーン切り替えの時刻（秒）
+  sceneCuts?: number[];
+  checkpoints?: JobCheckpoints;
+  // ジョブを実行中のワーカーと、その占有期限（期限切れのジョブは再度キューに戻される）
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  attempts?: number;
+  // 更新のたびに増える番号（SSE のイベントIDに使う）
+  revision?: number;
   createdAt: string;
   updatedAt?: string;
   completedAt?: string;
+  expiredAt?: string;
 }
+
+// 履歴の一覧に表示する項目（文字起こしや結果などの大きなデータを含まない）
+export const JOB_SUMMARY_FIELDS = [
+  'jobId',
+  'status',
+  'progress',
+  'source',
+  'settings',
+  'title',
+  'language',
+  'parentJobId',
+  'childJobIds',
+  'createdAt',
+  'completedAt',
+  'expiredAt',
+] as const;
+
+export type JobSummary = Pick<JobStatus, (typeof JOB_SUMMARY_FIELDS)[number]>;
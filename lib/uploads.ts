@@ -0,0 +1,71 @@
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+
+export const MEDIA_EXTENSIONS = ['.mp4', '.mov', '.mkv', '.mp3', '.wav'];
+
+// 動画・音声ファイルのアップロードの上限（MEDIA_UPLOAD_MAX_MBで変更可能）
+export const MEDIA_MAX_BYTES = (Number(process.env.MEDIA_UPLOAD_MAX_MB) || 2048) * 1024 * 1024;
+
+// アップロードファイルの保存先（UPLOAD_DIRで変更可能）
+export function getUploadDir(jobId: string): string {
+  const baseDir =
+    process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'yt-chapter-generator', 'uploads');
+  return path.join(baseDir, path.basename(jobId));
+}
+
+// アップロードされたファイルをジョブごとのディレクトリに保存し、保存先のパスを返す
+export async function saveUpload(jobId: string, file: File): Promise<string> {
+  const dir = getUploadDir(jobId);
+  await fs.mkdir(dir, { recursive: true });
+
+  const extension = path.extname(file.name).toLowerCase();
+  const filePath = path.join(dir, `source${extension}`);
+  await fs.writeFile(filePath, Buffer.from(await file.arrayBuffer()));
+  return filePath;
+}
+
+// リクエストの本文をメモリに溜めずにファイルへ書き出し、保存先のパスを返す
+// maxBytes を超えた時点で書き込みを中断する
+export async function saveUploadStream(
+  jobId: string,
+  fileName: string,
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<string> {
+  const dir = getUploadDir(jobId);
+  await fs.mkdir(dir, { recursive: true });
+
+  const extension = path.extname(fileName).toLowerCase();
+  const filePath = path.join(dir, `source${extension}`);
+  let size = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        callback(
+          new Error(`ファイルサイズが上限（${Math.floor(maxBytes / 1024 / 1024)}MB）を超えています`)
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+  await pipeline(
+    Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+    limit,
+    createWriteStream(filePath)
+  );
+  if (size === 0) {
+    throw new Error('ファイルが空です');
+  }
+  return filePath;
+}
+
+// ジョブに紐づくアップロードファイルを削除
+export async function removeUploads(jobId: string): Promise<void> {
+  await fs.rm(getUploadDir(jobId), { recursive: true, force: true });
+}
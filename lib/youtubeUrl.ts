@@ -0,0 +1,161 @@
+export type YouTubeUrlErrorCode =
+  | 'EMPTY'
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_SCHEME'
+  | 'NOT_YOUTUBE'
+  | 'CHANNEL_URL'
+  | 'SEARCH_URL'
+  | 'CLIP_URL'
+  | 'MISSING_VIDEO_ID'
+  | 'INVALID_VIDEO_ID';
+
+export type ParsedYouTubeUrl =
+  | {
+      ok: true;
+      videoId: string | null;
+      playlistId: string | null;
+      // t= / start= で指定された再生開始位置（秒）
+      startTime: number | null;
+    }
+  | { ok: false; code: YouTubeUrlErrorCode };
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const PLAYLIST_ID_PATTERN = /^[A-Za-z0-9_-]{2,}$/;
+
+const YOUTUBE_HOSTS = [
+  'youtube.com',
+  'www.youtube.com',
+  'm.youtube.com',
+  'music.youtube.com',
+  'gaming.youtube.com',
+  'youtube-nocookie.com',
+  'www.youtube-nocookie.com',
+];
+const SHORT_HOSTS = ['youtu.be', 'www.youtu.be'];
+
+// 動画IDを末尾に持つパス（/shorts/ID, /live/ID, /embed/ID など）
+const VIDEO_PATH_PREFIXES = ['shorts', 'live', 'embed', 'v', 'e'];
+const CHANNEL_PATH_PREFIXES = ['channel', 'c', 'user'];
+
+const ERROR_MESSAGES: Record<YouTubeUrlErrorCode, string> = {
+  EMPTY: 'URLを入力してください',
+  INVALID_URL: 'URLの形式が正しくありません',
+  UNSUPPORTED_SCHEME: 'http または https で始まるURLを入力してください',
+  NOT_YOUTUBE: 'YouTubeのURLではありません',
+  CHANNEL_URL: 'チャンネルのURLには対応していません。動画のURLを入力してください',
+  SEARCH_URL: '検索結果のURLには対応していません。動画のURLを入力してください',
+  CLIP_URL: 'クリップのURLには対応していません。元の動画のURLを入力してください',
+  MISSING_VIDEO_ID: 'URLに動画IDが含まれていません',
+  INVALID_VIDEO_ID: '動画IDの形式が正しくありません',
+};
+
+export function describeYouTubeUrlError(code: YouTubeUrlErrorCode): string {
+  return ERROR_MESSAGES[code];
+}
+
+// 「90」「1m30s」「1h2m3s」形式の開始位置を秒に変換
+function parseStartTime(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+(\.\d+)?s?$/.test(value)) {
+    return Math.floor(parseFloat(value));
+  }
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !(match[1] || match[2] || match[3])) {
+    return null;
+  }
+  return (
+    parseInt(match[1] || '0', 10) * 3600 +
+    parseInt(match[2] || '0', 10) * 60 +
+    parseInt(match[3] || '0', 10)
+  );
+}
+
+function readStartTime(url: URL): number | null {
+  const hash = new URLSearchParams(url.hash.replace(/^#/, ''));
+  return (
+    parseStartTime(url.searchParams.get('t')) ??
+    parseStartTime(url.searchParams.get('start')) ??
+    parseStartTime(hash.get('t'))
+  );
+}
+
+function result(
+  videoId: string | null,
+  playlistId: string | null,
+  startTime: number | null
+): ParsedYouTubeUrl {
+  if (videoId !== null && !VIDEO_ID_PATTERN.test(videoId)) {
+    return { ok: false, code: 'INVALID_VIDEO_ID' };
+  }
+  if (videoId === null && playlistId === null) {
+    return { ok: false, code: 'MISSING_VIDEO_ID' };
+  }
+  return { ok: true, videoId, playlistId, startTime };
+}
+
+// YouTubeのURL（または動画IDそのもの）を解析して動画ID・プレイリストID・開始位置を取り出す
+export function parseYouTubeUrl(input: string): ParsedYouTubeUrl {
+  const value = (input || '').trim();
+  if (!value) {
+    return { ok: false, code: 'EMPTY' };
+  }
+  if (VIDEO_ID_PATTERN.test(value)) {
+    return { ok: true, videoId: value, playlistId: null, startTime: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch (error) {
+    return { ok: false, code: 'INVALID_URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { ok: false, code: 'UNSUPPORTED_SCHEME' };
+  }
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter((segment) => segment.length > 0);
+  const listParam = url.searchParams.get('list');
+  const playlistId = listParam && PLAYLIST_ID_PATTERN.test(listParam) ? listParam : null;
+  const startTime = readStartTime(url);
+
+  if (SHORT_HOSTS.includes(host)) {
+    return result(segments[0] ?? null, playlistId, startTime);
+  }
+
+  if (!YOUTUBE_HOSTS.includes(host)) {
+    return { ok: false, code: 'NOT_YOUTUBE' };
+  }
+
+  const [first, second] = segments;
+
+  if (!first || first === 'watch' || first === 'playlist') {
+    return result(url.searchParams.get('v'), playlistId, startTime);
+  }
+  if (first === 'attribution_link') {
+    // 共有リンク（/attribution_link?u=/watch%3Fv%3D...）は中のURLを解析する
+    const inner = url.searchParams.get('u');
+    return inner
+      ? parseYouTubeUrl(`https://${host}${inner}`)
+      : { ok: false, code: 'MISSING_VIDEO_ID' };
+  }
+  if (first === 'embed' && second === 'videoseries') {
+    return result(null, playlistId, startTime);
+  }
+  if (VIDEO_PATH_PREFIXES.includes(first)) {
+    return second ? result(second, playlistId, startTime) : { ok: false, code: 'MISSING_VIDEO_ID' };
+  }
+  if (first === 'clip') {
+    return { ok: false, code: 'CLIP_URL' };
+  }
+  if (first === 'results') {
+    return { ok: false, code: 'SEARCH_URL' };
+  }
+  if (first.startsWith('@') || CHANNEL_PATH_PREFIXES.includes(first)) {
+    return { ok: false, code: 'CHANNEL_URL' };
+  }
+  return { ok: false, code: 'MISSING_VIDEO_ID' };
+}
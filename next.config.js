@@ -7,6 +7,17 @@ const nextConfig = {
   // 必要に応じて他の設定を追加
   reactStrictMode: true,
 
+  // ffmpegバイナリのパス解決が壊れないよう、バンドル対象から除外
+  serverExternalPackages: ['fluent-ffmpeg', '@ffmpeg-installer/ffmpeg'],
+
+  // 字幕ファイルをServer Actionでアップロードするため上限を引き上げる
+  // （動画・音声ファイルは /api/uploads/media でファイルに直接書き出す）
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '10mb',
+    },
+  },
+
   // APIエンドポイントを使用するためにoutput: 'export'を使用しないでください
 };
 
@@ -0,0 +1,88 @@
+import assert from 'assert';
+import { getTranscriptProvider, TranscriptNotFoundError } from '../lib/transcript';
+
+// fixtures/transcripts の字幕をオフライン用のプロバイダーで読み込めるか確認する（npm test で実行する）
+process.env.TRANSCRIPT_PROVIDER = 'fixture';
+delete process.env.TRANSCRIPT_FIXTURE_DIR;
+
+const VIDEO_ID = 'fixture0001';
+
+const CASES: [string, () => Promise<void>][] = [
+  [
+    'プロバイダーが fixture になる',
+    async () => {
+      const provider = getTranscriptProvider();
+      assert.strictEqual(provider.name, 'fixture');
+      assert.strictEqual(provider.supportsTrackKind, true);
+    },
+  ],
+  [
+    '字幕トラックを一覧できる',
+    async () => {
+      const tracks = await getTranscriptProvider().listTracks(VIDEO_ID);
+      assert.deepStrictEqual(tracks, [
+        { language: 'ja', name: '日本語', isAutoGenerated: false },
+        { language: 'ja', name: '日本語 (自動生成)', isAutoGenerated: true },
+        { language: 'en', name: 'English', isAutoGenerated: false },
+      ]);
+    },
+  ],
+  [
+    '指定しなければ手動の字幕を返す',
+    async () => {
+      const segments = await getTranscriptProvider().fetchTranscript(VIDEO_ID, 'ja');
+      assert.strictEqual(segments.length, 5);
+      assert.strictEqual(segments[0].text, 'こんにちは。今日はチャプターの付け方を紹介します。');
+      assert.strictEqual(segments[segments.length - 1].end, 190);
+    },
+  ],
+  [
+    '自動生成の字幕を指定できる',
+    async () => {
+      const segments = await getTranscriptProvider().fetchTranscript(VIDEO_ID, 'ja', {
+        autoGenerated: true,
+      });
+      assert.strictEqual(segments[0].text, 'こんにちは 今日は チャプターの付け方を紹介します');
+    },
+  ],
+  [
+    '別の言語の字幕を返す',
+    async () => {
+      const segments = await getTranscriptProvider().fetchTranscript(VIDEO_ID, 'en');
+      assert.strictEqual(segments[4].text, 'Thanks for watching.');
+    },
+  ],
+  [
+    '字幕がない言語・動画は TranscriptNotFoundError になる',
+    async () => {
+      await assert.rejects(
+        getTranscriptProvider().fetchTranscript(VIDEO_ID, 'fr'),
+        TranscriptNotFoundError
+      );
+      await assert.rejects(
+        getTranscriptProvider().fetchTranscript('missing0000', 'ja'),
+        TranscriptNotFoundError
+      );
+      assert.deepStrictEqual(await getTranscriptProvider().listTracks('missing0000'), []);
+    },
+  ],
+];
+
+async function main() {
+  let failures = 0;
+  for (const [name, run] of CASES) {
+    try {
+      await run();
+    } catch (error) {
+      failures++;
+      console.error(`✗ ${name}\n${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`${CASES.length - failures} / ${CASES.length} 件成功`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main();
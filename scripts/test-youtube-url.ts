@@ -0,0 +1,88 @@
+import assert from 'assert';
+import { parseYouTubeUrl, ParsedYouTubeUrl } from '../lib/youtubeUrl';
+
+// parseYouTubeUrl の入力と期待する結果の一覧（npm test で実行する）
+const ID = 'dQw4w9WgXcQ';
+const LIST = 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf';
+
+const ok = (
+  videoId: string | null,
+  playlistId: string | null = null,
+  startTime: number | null = null
+): ParsedYouTubeUrl => ({ ok: true, videoId, playlistId, startTime });
+
+const CASES: [string, ParsedYouTubeUrl][] = [
+  // 通常の動画URL
+  [`https://www.youtube.com/watch?v=${ID}`, ok(ID)],
+  [`http://youtube.com/watch?v=${ID}`, ok(ID)],
+  [`https://m.youtube.com/watch?v=${ID}&feature=share`, ok(ID)],
+  [`www.youtube.com/watch?v=${ID}`, ok(ID)],
+  [`  https://www.youtube.com/watch?v=${ID}  `, ok(ID)],
+  [`https://youtu.be/${ID}`, ok(ID)],
+  [`https://youtu.be/${ID}?si=abcdef`, ok(ID)],
+  // 動画IDだけ
+  [ID, ok(ID)],
+  // ショート・ライブ・埋め込み
+  [`https://www.youtube.com/shorts/${ID}`, ok(ID)],
+  [`https://youtube.com/shorts/${ID}?feature=share`, ok(ID)],
+  [`https://www.youtube.com/live/${ID}`, ok(ID)],
+  [`https://www.youtube.com/embed/${ID}`, ok(ID)],
+  [`https://www.youtube-nocookie.com/embed/${ID}`, ok(ID)],
+  [`https://youtube-nocookie.com/embed/${ID}?start=30`, ok(ID, null, 30)],
+  [`https://www.youtube.com/v/${ID}`, ok(ID)],
+  // YouTube Music
+  [`https://music.youtube.com/watch?v=${ID}`, ok(ID)],
+  [`https://music.youtube.com/watch?v=${ID}&list=${LIST}`, ok(ID, LIST)],
+  // 共有リンク
+  [
+    `https://www.youtube.com/attribution_link?a=xyz&u=%2Fwatch%3Fv%3D${ID}%26feature%3Dshare`,
+    ok(ID),
+  ],
+  ['https://www.youtube.com/attribution_link?a=xyz', { ok: false, code: 'MISSING_VIDEO_ID' }],
+  // 開始位置（t= / start= / #t=）
+  [`https://youtu.be/${ID}?t=90`, ok(ID, null, 90)],
+  [`https://www.youtube.com/watch?v=${ID}&t=1m30s`, ok(ID, null, 90)],
+  [`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, ok(ID, null, 3723)],
+  [`https://www.youtube.com/watch?v=${ID}&t=45s`, ok(ID, null, 45)],
+  [`https://www.youtube.com/watch?v=${ID}#t=2m`, ok(ID, null, 120)],
+  [`https://www.youtube.com/watch?v=${ID}&t=abc`, ok(ID)],
+  // プレイリスト
+  [`https://www.youtube.com/playlist?list=${LIST}`, ok(null, LIST)],
+  [`https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=2`, ok(ID, LIST)],
+  [`https://www.youtube.com/embed/videoseries?list=${LIST}`, ok(null, LIST)],
+  // チャンネル・検索・クリップ
+  ['https://www.youtube.com/@example', { ok: false, code: 'CHANNEL_URL' }],
+  ['https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv', { ok: false, code: 'CHANNEL_URL' }],
+  ['https://www.youtube.com/c/example', { ok: false, code: 'CHANNEL_URL' }],
+  ['https://www.youtube.com/user/example', { ok: false, code: 'CHANNEL_URL' }],
+  ['https://www.youtube.com/results?search_query=chapters', { ok: false, code: 'SEARCH_URL' }],
+  ['https://www.youtube.com/clip/UgkxAbCdEfGhIjKlMnOp', { ok: false, code: 'CLIP_URL' }],
+  // 不正な入力
+  ['', { ok: false, code: 'EMPTY' }],
+  ['   ', { ok: false, code: 'EMPTY' }],
+  ['https://', { ok: false, code: 'INVALID_URL' }],
+  [`ftp://youtube.com/watch?v=${ID}`, { ok: false, code: 'UNSUPPORTED_SCHEME' }],
+  [`javascript://youtube.com/watch?v=${ID}`, { ok: false, code: 'UNSUPPORTED_SCHEME' }],
+  [`https://vimeo.com/watch?v=${ID}`, { ok: false, code: 'NOT_YOUTUBE' }],
+  [`https://youtube.com.example.com/watch?v=${ID}`, { ok: false, code: 'NOT_YOUTUBE' }],
+  ['https://www.youtube.com/watch', { ok: false, code: 'MISSING_VIDEO_ID' }],
+  ['https://www.youtube.com/shorts/', { ok: false, code: 'MISSING_VIDEO_ID' }],
+  ['https://www.youtube.com/feed/subscriptions', { ok: false, code: 'MISSING_VIDEO_ID' }],
+  ['https://www.youtube.com/watch?v=short', { ok: false, code: 'INVALID_VIDEO_ID' }],
+  ['https://youtu.be/not-a-valid-id!', { ok: false, code: 'INVALID_VIDEO_ID' }],
+];
+
+let failures = 0;
+CASES.forEach(([input, expected]) => {
+  try {
+    assert.deepStrictEqual(parseYouTubeUrl(input), expected);
+  } catch (error) {
+    failures++;
+    console.error(`✗ ${JSON.stringify(input)}\n${error instanceof Error ? error.message : error}`);
+  }
+});
+
+console.log(`${CASES.length - failures} / ${CASES.length} 件成功`);
+if (failures > 0) {
+  process.exit(1);
+}
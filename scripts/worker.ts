@@ -0,0 +1,15 @@
+import { createJobWorker } from '../lib/queue';
+import { startJobSweeper } from '../lib/jobStore';
+
+// JOB_WORKER_MODE=external のときに Next.js とは別に起動するワーカー
+const worker = createJobWorker();
+worker.start();
+startJobSweeper();
+console.log(`ジョブワーカーを起動しました: ${worker.workerId}`);
+
+// 停止の合図を受けたら、実行中のジョブを終えてから終了する
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+  process.once(signal, () => {
+    worker.stop().then(() => process.exit(0));
+  });
+});